@@ -0,0 +1,239 @@
+/**
+ * Business-day calendars: a weekend mask plus a set of holidays
+ * A calendar day is a business day unless its weekday is in the weekend or it is a holiday;
+ * days are counted on the wall clock of the calendar's zone and holidays are plain local data
+ */
+
+import { Period } from '../core/Period';
+import { Bounds, Precision, Weekday } from '../core/types';
+import { TimeZone } from '../core/TimeZone';
+import { Sequence } from '../sequence/Sequence';
+
+/**
+ * Settings of a business calendar
+ * Example: new BusinessCalendar({ weekend: [Weekday.Friday, Weekday.Saturday], holidays: ['2024-12-25'] })
+ */
+export interface BusinessCalendarOptions {
+  /** Non-working weekdays (defaults to Saturday and Sunday) */
+  readonly weekend?: readonly Weekday[];
+  /** Holidays: a period covers every day it touches, a date or date string one day */
+  readonly holidays?: Iterable<Period | Date | string>;
+  /** IANA time zone whose calendar days are counted (defaults to UTC) */
+  readonly zone?: string;
+}
+
+const DAY_MS = 86400000;
+
+// Weekend mask with every weekday set
+const FULL_WEEK = 0b1111111;
+
+const DEFAULT_WEEKEND: readonly Weekday[] = [Weekday.Saturday, Weekday.Sunday];
+
+export class BusinessCalendar {
+  // Bit n is set when Weekday n is a weekend day
+  private readonly _weekendMask: number;
+  // Holiday calendar dates as midnight UTC timestamps
+  private readonly _holidays: ReadonlySet<number>;
+  private readonly _zone: string;
+
+  constructor(options: BusinessCalendarOptions = {}) {
+    const zone = options.zone ?? 'UTC';
+    if (!TimeZone.isValid(zone)) {
+      throw new Error(`Invalid time zone: ${zone}`);
+    }
+    this._zone = zone;
+
+    this._weekendMask = (options.weekend ?? DEFAULT_WEEKEND).reduce((mask, weekday) => mask | (1 << weekday), 0);
+    if (this._weekendMask === FULL_WEEK) {
+      throw new Error('Weekend must leave at least one working day');
+    }
+
+    const holidays = new Set<number>();
+    for (const holiday of options.holidays ?? []) {
+      if (holiday instanceof Period) {
+        const range = this._dateRange(holiday);
+        for (let date = range[0]; date <= range[1]; date += DAY_MS) {
+          holidays.add(date);
+        }
+      } else {
+        holidays.add(this._dateOf(holiday));
+      }
+    }
+    this._holidays = holidays;
+  }
+
+  /**
+   * IANA time zone whose calendar days are counted
+   */
+  get zone(): string {
+    return this._zone;
+  }
+
+  /**
+   * Non-working weekdays, Sunday first
+   */
+  get weekend(): Weekday[] {
+    const weekend: Weekday[] = [];
+    for (let weekday = Weekday.Sunday; weekday <= Weekday.Saturday; weekday++) {
+      if (this._weekendMask & (1 << weekday)) {
+        weekend.push(weekday);
+      }
+    }
+    return weekend;
+  }
+
+  /**
+   * Holidays as one day period each, in date order
+   */
+  get holidays(): Sequence {
+    return new Sequence([...this._holidays].sort((a, b) => a - b).map(date => this._day(date)), true);
+  }
+
+  /**
+   * New calendar with the same weekend and zone and additional holidays
+   */
+  withHolidays(holidays: Iterable<Period | Date | string>): BusinessCalendar {
+    return new BusinessCalendar({
+      weekend: this.weekend,
+      holidays: [...this.holidays, ...holidays],
+      zone: this._zone
+    });
+  }
+
+  /**
+   * Check whether the calendar day of a date falls on the weekend
+   */
+  isWeekend(date: Date | string | number): boolean {
+    return this._isWeekendDate(this._dateOf(date));
+  }
+
+  /**
+   * Check whether the calendar day of a date is a holiday
+   */
+  isHoliday(date: Date | string | number): boolean {
+    return this._holidays.has(this._dateOf(date));
+  }
+
+  /**
+   * Check whether the calendar day of a date is a business day
+   */
+  isBusinessDay(date: Date | string | number): boolean {
+    return this._isBusinessDate(this._dateOf(date));
+  }
+
+  /**
+   * Move a date by n business days, keeping its wall-clock time of day
+   * The starting day is not counted, so Friday + 1 is Monday; negative n moves backward
+   * and n = 0 returns the date unchanged even if it is not a business day
+   */
+  addBusinessDays(date: Date | string | number, n: number): Date {
+    if (!Number.isInteger(n)) {
+      throw new Error(`Business day count must be an integer: ${n}`);
+    }
+
+    const timestamp = this._timestampOf(date);
+    const startDate = TimeZone.calendarDate(timestamp, this._zone);
+    const step = n < 0 ? -DAY_MS : DAY_MS;
+    let current = startDate;
+    for (let remaining = Math.abs(n); remaining > 0;) {
+      current += step;
+      if (this._isBusinessDate(current)) {
+        remaining--;
+      }
+    }
+    return new Date(TimeZone.addDays(timestamp, (current - startDate) / DAY_MS, this._zone));
+  }
+
+  /**
+   * Number of business days the period touches
+   * A day counts if the period includes any instant of it: [Mon 09:00, Mon 17:00) is one day,
+   * [Mon, Sat) at day precision is five
+   */
+  businessDays(period: Period): number {
+    const [first, last] = this._dateRange(period);
+    let count = 0;
+    for (let date = first; date <= last; date += DAY_MS) {
+      if (this._isBusinessDate(date)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Business days the period touches, as whole-day [start, end) periods in the calendar's zone
+   */
+  workingDays(period: Period): Sequence {
+    const [first, last] = this._dateRange(period);
+    const days: Period[] = [];
+    for (let date = first; date <= last; date += DAY_MS) {
+      if (this._isBusinessDate(date)) {
+        days.push(this._day(date));
+      }
+    }
+    return new Sequence(days, true);
+  }
+
+  /**
+   * Check a calendar date (midnight UTC timestamp) against the weekend mask
+   */
+  private _isWeekendDate(calendarDate: number): boolean {
+    return (this._weekendMask & (1 << new Date(calendarDate).getUTCDay())) !== 0;
+  }
+
+  /**
+   * Check a calendar date (midnight UTC timestamp) against the weekend mask and the holidays
+   */
+  private _isBusinessDate(calendarDate: number): boolean {
+    return !this._isWeekendDate(calendarDate) && !this._holidays.has(calendarDate);
+  }
+
+  /**
+   * First and last calendar date a period touches (first > last if it touches none)
+   */
+  private _dateRange(period: Period): [number, number] {
+    if (!period.isBounded()) {
+      throw new Error(`Business days need a bounded period: ${period.toString()}`);
+    }
+    // Canonical [start, end) form, so excluded endpoints do not pull in a neighbouring day
+    const covered = period._toDiscrete();
+    if (!covered || covered.startTime >= covered.endTime) {
+      return [0, -DAY_MS];
+    }
+    return [
+      TimeZone.calendarDate(covered.startTime, this._zone),
+      TimeZone.calendarDate(covered.endTime - 1, this._zone)
+    ];
+  }
+
+  /**
+   * Whole-day period of a calendar date in the calendar's zone
+   */
+  private _day(calendarDate: number): Period {
+    return new Period(
+      TimeZone.midnightOf(calendarDate, this._zone),
+      TimeZone.midnightOf(calendarDate + DAY_MS, this._zone),
+      Bounds.IncludeStartExcludeEnd,
+      { precision: Precision.Day, zone: this._zone }
+    );
+  }
+
+  /**
+   * Calendar date of the input in the calendar's zone, as a midnight UTC timestamp
+   */
+  private _dateOf(date: Date | string | number): number {
+    return TimeZone.calendarDate(this._timestampOf(date), this._zone);
+  }
+
+  /**
+   * Timestamp of the input; strings without an offset are wall-clock time in the calendar's zone
+   */
+  private _timestampOf(date: Date | string | number): number {
+    const timestamp = typeof date === 'number' ? date :
+                      typeof date === 'string' ? TimeZone.parse(date, this._zone) : date.getTime();
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid date: ${String(date)}`);
+    }
+    return timestamp;
+  }
+}
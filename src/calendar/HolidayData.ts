@@ -0,0 +1,64 @@
+/**
+ * Bundled public-holiday rule sets, keyed by ISO 3166-1 alpha-2 code
+ * Nationwide holidays only - regional ones can be added with Holidays.register()
+ */
+
+import { Observance, Weekday } from '../core/types';
+import type { HolidayRule } from './Holidays';
+
+export const BUNDLED_HOLIDAYS: Readonly<Record<string, readonly HolidayRule[]>> = {
+  // United States - federal holidays
+  US: [
+    { name: "New Year's Day", month: 1, day: 1, observance: Observance.NearestWeekday },
+    { name: 'Martin Luther King Jr. Day', month: 1, weekday: Weekday.Monday, nth: 3 },
+    { name: "Washington's Birthday", month: 2, weekday: Weekday.Monday, nth: 3 },
+    { name: 'Memorial Day', month: 5, weekday: Weekday.Monday, nth: -1 },
+    { name: 'Juneteenth', month: 6, day: 19, observance: Observance.NearestWeekday, since: 2021 },
+    { name: 'Independence Day', month: 7, day: 4, observance: Observance.NearestWeekday },
+    { name: 'Labor Day', month: 9, weekday: Weekday.Monday, nth: 1 },
+    { name: 'Columbus Day', month: 10, weekday: Weekday.Monday, nth: 2 },
+    { name: 'Veterans Day', month: 11, day: 11, observance: Observance.NearestWeekday },
+    { name: 'Thanksgiving Day', month: 11, weekday: Weekday.Thursday, nth: 4 },
+    { name: 'Christmas Day', month: 12, day: 25, observance: Observance.NearestWeekday }
+  ],
+
+  // United Kingdom - England and Wales bank holidays
+  GB: [
+    { name: "New Year's Day", month: 1, day: 1, observance: Observance.FollowingMonday },
+    { name: 'Good Friday', easterOffset: -2 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'Early May Bank Holiday', month: 5, weekday: Weekday.Monday, nth: 1 },
+    { name: 'Spring Bank Holiday', month: 5, weekday: Weekday.Monday, nth: -1 },
+    { name: 'Summer Bank Holiday', month: 8, weekday: Weekday.Monday, nth: -1 },
+    { name: 'Christmas Day', month: 12, day: 25, observance: Observance.FollowingMonday },
+    { name: 'Boxing Day', month: 12, day: 26, observance: Observance.FollowingMonday }
+  ],
+
+  // Germany - nationwide public holidays
+  DE: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Good Friday', easterOffset: -2 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'Labour Day', month: 5, day: 1 },
+    { name: 'Ascension Day', easterOffset: 39 },
+    { name: 'Whit Monday', easterOffset: 50 },
+    { name: 'German Unity Day', month: 10, day: 3, since: 1990 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: "St. Stephen's Day", month: 12, day: 26 }
+  ],
+
+  // France - public holidays (jours fériés)
+  FR: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'Labour Day', month: 5, day: 1 },
+    { name: 'Victory in Europe Day', month: 5, day: 8 },
+    { name: 'Ascension Day', easterOffset: 39 },
+    { name: 'Whit Monday', easterOffset: 50 },
+    { name: 'Bastille Day', month: 7, day: 14 },
+    { name: 'Assumption Day', month: 8, day: 15 },
+    { name: "All Saints' Day", month: 11, day: 1 },
+    { name: 'Armistice Day', month: 11, day: 11 },
+    { name: 'Christmas Day', month: 12, day: 25 }
+  ]
+};
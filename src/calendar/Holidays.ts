@@ -0,0 +1,294 @@
+/**
+ * Rule-based public holidays: fixed dates, n-th weekdays of a month and dates relative to Easter,
+ * with weekend holidays optionally moved to an observed weekday
+ * Everything is computed offline from rule data; bundled rule sets can be extended with register()
+ */
+
+import { Period, TaggedPeriod } from '../core/Period';
+import { Observance, Weekday } from '../core/types';
+import { PeriodConstructors } from '../constructors/PeriodConstructors';
+import { Sequence } from '../sequence/Sequence';
+import { BUNDLED_HOLIDAYS } from './HolidayData';
+
+/**
+ * Settings shared by every kind of holiday rule
+ */
+export interface HolidayRuleBase {
+  /** Name the holiday periods are tagged with */
+  readonly name: string;
+  /** Weekend handling (defaults to Observance.Actual) */
+  readonly observance?: Observance;
+  /** First year the holiday exists */
+  readonly since?: number;
+  /** Last year the holiday exists */
+  readonly until?: number;
+}
+
+/**
+ * Holiday on the same date every year
+ * Example: { name: 'Christmas Day', month: 12, day: 25 }
+ */
+export interface FixedHolidayRule extends HolidayRuleBase {
+  /** Month (1-12) */
+  readonly month: number;
+  /** Day of the month; February 29 only occurs in leap years */
+  readonly day: number;
+}
+
+/**
+ * Holiday on the n-th weekday of a month
+ * Example: { name: 'Thanksgiving Day', month: 11, weekday: Weekday.Thursday, nth: 4 }
+ */
+export interface NthWeekdayHolidayRule extends HolidayRuleBase {
+  /** Month (1-12) */
+  readonly month: number;
+  readonly weekday: Weekday;
+  /** Occurrence within the month (1-5), negative counts from the month end (-1 is the last) */
+  readonly nth: number;
+}
+
+/**
+ * Holiday a number of days before or after Easter Sunday (Gregorian computus)
+ * Example: { name: 'Good Friday', easterOffset: -2 }
+ */
+export interface EasterHolidayRule extends HolidayRuleBase {
+  readonly easterOffset: number;
+}
+
+export type HolidayRule = FixedHolidayRule | NthWeekdayHolidayRule | EasterHolidayRule;
+
+/**
+ * Options for generating holiday periods
+ */
+export interface HolidayOptions {
+  /** IANA time zone whose calendar days the periods cover (defaults to UTC) */
+  readonly zone?: string;
+}
+
+const DAY_MS = 86400000;
+
+// Registered rule sets by upper-case code
+const RULE_SETS = new Map<string, readonly HolidayRule[]>(Object.entries(BUNDLED_HOLIDAYS));
+
+export namespace Holidays {
+  /**
+   * Add or replace a rule set, e.g. a country, region or company calendar
+   * Codes are case-insensitive; rules are validated when registered
+   */
+  export function register(code: string, rules: readonly HolidayRule[]): void {
+    rules.forEach(validate);
+    RULE_SETS.set(code.toUpperCase(), [...rules]);
+  }
+
+  /**
+   * Codes of all registered rule sets
+   */
+  export function codes(): string[] {
+    return [...RULE_SETS.keys()];
+  }
+
+  /**
+   * Rules of a registered set
+   */
+  export function rules(code: string): readonly HolidayRule[] {
+    const ruleSet = RULE_SETS.get(code.toUpperCase());
+    if (!ruleSet) {
+      throw new Error(`Unknown holiday rule set: ${code}`);
+    }
+    return ruleSet;
+  }
+
+  /**
+   * Observed holidays of a year as one-day periods tagged with the holiday name, in date order
+   * A holiday moved by its observance may land in a neighbouring year (New Year's Day 2022 on Friday 2021-12-31)
+   */
+  export function forYear(set: string | readonly HolidayRule[], year: number, options: HolidayOptions = {}): Sequence<TaggedPeriod<string>> {
+    return new Sequence(observed(resolveRules(set), year, options.zone), true);
+  }
+
+  /**
+   * Observed holidays that overlap a window, in date order
+   * Example: new BusinessCalendar({ holidays: Holidays.between('US', Period.fromYear(2024)) })
+   */
+  export function between(set: string | readonly HolidayRule[], window: Period, options: HolidayOptions = {}): Sequence<TaggedPeriod<string>> {
+    if (!window.isBounded()) {
+      throw new Error(`Holidays need a bounded window: ${window.toString()}`);
+    }
+    const rules = resolveRules(set);
+    const zone = options.zone ?? window.zone;
+    const firstYear = new Date(window.startTime).getUTCFullYear();
+    const lastYear = new Date(window.endTime).getUTCFullYear();
+
+    // Neighbouring years contribute holidays observed across the year boundary
+    const holidays: TaggedPeriod<string>[] = [];
+    for (let year = firstYear - 1; year <= lastYear + 1; year++) {
+      holidays.push(...observed(rules, year, zone).filter(holiday => holiday.overlaps(window)));
+    }
+    return new Sequence(holidays, true);
+  }
+
+  /**
+   * Easter Sunday of a Gregorian year, at midnight UTC (anonymous Gregorian computus)
+   */
+  export function easter(year: number): Date {
+    return new Date(easterDate(year));
+  }
+
+  /**
+   * Rules of a set given by code or directly
+   */
+  function resolveRules(set: string | readonly HolidayRule[]): readonly HolidayRule[] {
+    if (typeof set === 'string') {
+      return rules(set);
+    }
+    set.forEach(validate);
+    return set;
+  }
+
+  /**
+   * Observed holiday periods of a year, sorted by date
+   * Holidays that stay put are placed first, so substitute days skip over them
+   */
+  function observed(rules: readonly HolidayRule[], year: number, zone: string | undefined): TaggedPeriod<string>[] {
+    const actual: { rule: HolidayRule; date: number }[] = [];
+    for (const rule of rules) {
+      const date = (rule.since === undefined || year >= rule.since) && (rule.until === undefined || year <= rule.until)
+        ? ruleDate(rule, year)
+        : null;
+      if (date !== null) {
+        actual.push({ rule, date });
+      }
+    }
+    actual.sort((a, b) => a.date - b.date);
+
+    const taken = new Set(actual.filter(({ rule, date }) => !moves(rule, date)).map(({ date }) => date));
+    const holidays = actual.map(({ rule, date }) => {
+      if (moves(rule, date)) {
+        date = shift(date, rule.observance!, taken);
+        taken.add(date);
+      }
+      return { name: rule.name, date };
+    });
+
+    return holidays
+      .sort((a, b) => a.date - b.date)
+      .map(({ name, date }) => {
+        const day = PeriodConstructors.fromDay(new Date(date).toISOString().slice(0, 10), { zone });
+        return TaggedPeriod.from(day, name);
+      });
+  }
+
+  /**
+   * Calendar date (midnight UTC) of a rule in a year, or null if it does not occur that year
+   */
+  function ruleDate(rule: HolidayRule, year: number): number | null {
+    if ('easterOffset' in rule) {
+      return easterDate(year) + rule.easterOffset * DAY_MS;
+    }
+    if ('weekday' in rule) {
+      return nthWeekday(year, rule.month, rule.weekday, rule.nth);
+    }
+    const date = Date.UTC(year, rule.month - 1, rule.day);
+    // February 29 outside leap years
+    return new Date(date).getUTCDate() === rule.day ? date : null;
+  }
+
+  /**
+   * Check whether a holiday is observed on another day than its date
+   */
+  function moves(rule: HolidayRule, date: number): boolean {
+    return (rule.observance ?? Observance.Actual) !== Observance.Actual && isWeekend(date);
+  }
+
+  /**
+   * Observed date of a weekend holiday
+   */
+  function shift(date: number, observance: Observance, taken: ReadonlySet<number>): number {
+    const weekday = new Date(date).getUTCDay();
+    if (observance === Observance.NearestWeekday) {
+      return date + (weekday === Weekday.Saturday ? -DAY_MS : DAY_MS);
+    }
+    let next = date + DAY_MS;
+    while (isWeekend(next) || taken.has(next)) {
+      next += DAY_MS;
+    }
+    return next;
+  }
+
+  /**
+   * Check whether a calendar date falls on Saturday or Sunday
+   */
+  function isWeekend(date: number): boolean {
+    const weekday = new Date(date).getUTCDay();
+    return weekday === Weekday.Saturday || weekday === Weekday.Sunday;
+  }
+
+  /**
+   * Calendar date of the n-th weekday of a month (negative n counts from the end), or null if there is none
+   */
+  function nthWeekday(year: number, month: number, weekday: Weekday, nth: number): number | null {
+    if (nth > 0) {
+      const first = Date.UTC(year, month - 1, 1);
+      const offset = (weekday - new Date(first).getUTCDay() + 7) % 7;
+      const date = first + (offset + (nth - 1) * 7) * DAY_MS;
+      return new Date(date).getUTCMonth() === month - 1 ? date : null;
+    }
+    const last = Date.UTC(year, month, 0);
+    const offset = (new Date(last).getUTCDay() - weekday + 7) % 7;
+    const date = last - (offset + (-nth - 1) * 7) * DAY_MS;
+    return new Date(date).getUTCMonth() === month - 1 ? date : null;
+  }
+
+  /**
+   * Easter Sunday as a calendar date (Meeus/Jones/Butcher algorithm)
+   */
+  function easterDate(year: number): number {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return Date.UTC(year, month - 1, day);
+  }
+
+  /**
+   * Reject rules that can never produce a date
+   */
+  function validate(rule: HolidayRule): void {
+    const invalid = (reason: string) => new Error(`Invalid holiday rule ${JSON.stringify(rule.name)}: ${reason}`);
+    if (!rule.name) {
+      throw invalid('name is required');
+    }
+    if ('easterOffset' in rule) {
+      if (!Number.isInteger(rule.easterOffset)) {
+        throw invalid('easterOffset must be an integer');
+      }
+      return;
+    }
+    if (!Number.isInteger(rule.month) || rule.month < 1 || rule.month > 12) {
+      throw invalid(`month must be 1-12, got ${rule.month}`);
+    }
+    if ('weekday' in rule) {
+      if (!Number.isInteger(rule.weekday) || rule.weekday < Weekday.Sunday || rule.weekday > Weekday.Saturday) {
+        throw invalid(`weekday must be 0-6, got ${rule.weekday}`);
+      }
+      if (!Number.isInteger(rule.nth) || rule.nth === 0 || Math.abs(rule.nth) > 5) {
+        throw invalid(`nth must be 1-5 or -1 to -5, got ${rule.nth}`);
+      }
+      return;
+    }
+    // Checked against a leap year so February 29 stays valid
+    if (!Number.isInteger(rule.day) || rule.day < 1 || rule.day > new Date(Date.UTC(2000, rule.month, 0)).getUTCDate()) {
+      throw invalid(`day ${rule.day} does not exist in month ${rule.month}`);
+    }
+  }
+}
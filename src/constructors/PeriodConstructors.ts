@@ -1,112 +1,288 @@
 /**
  * Named constructors for Period creation optimized for date-only operations
- * All constructors work with day-level precision and normalize to midnight UTC
+ * Calendar constructors work with day-level precision and normalize to midnight UTC,
+ * or to midnight in the given IANA zone; fromDates, fromTimestamps and fromDuration
+ * also accept sub-day precision
  */
 
 import { Period } from '../core/Period';
-import { Bounds } from '../core/types';
+import { Bounds, PeriodOptions, Precision, PrecisionUtils } from '../core/types';
+import { TimeZone } from '../core/TimeZone';
 import { DurationInterval } from '../duration/DurationInterval';
+import { BusinessCalendar } from '../calendar/BusinessCalendar';
+
+/**
+ * Options accepted by named constructors in place of a Bounds argument
+ * Example: Period.fromDay('2024-03-31', { zone: 'Europe/Berlin' })
+ */
+export interface ConstructorOptions extends PeriodOptions {
+  /** Boundary type (defaults to Bounds.IncludeStartExcludeEnd) */
+  readonly bounds?: Bounds;
+}
+
+/**
+ * Options for repeating ISO 8601 intervals (Rn/start/duration and friends)
+ */
+export interface RepeatingOptions extends ConstructorOptions {
+  /** Required for unbounded repetitions (R/...); periods are clipped to it */
+  readonly window?: Period;
+}
+
+// Zone designator at the end of an ISO date-time ('Z' or an offset)
+const ISO_ZONE_SUFFIX = /^(.*?)(Z|[+-]\d{2}:\d{2})?$/;
+const ISO_REPEATING = /^R(-1|\d*)\/(.+)$/;
+// Open endpoint of an ISO 8601-2 interval
+const OPEN = '..';
 
 export namespace PeriodConstructors {
   /**
    * Create period from start and end dates (most common constructor)
-   * Dates are automatically normalized to midnight UTC for date-only operations
+   * Dates are normalized to midnight UTC unless a finer precision or a zone is requested
    */
-  export function fromDates(start: Date, end: Date, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    return new Period(start, end, bounds);
+  export function fromDates(start: Date, end: Date, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd, options?: PeriodOptions): Period {
+    const [resolvedBounds, resolvedOptions] = resolve(bounds, options);
+    return new Period(start, end, resolvedBounds, resolvedOptions);
   }
 
   /**
    * Create period from month (optimized for date-only operations)
    * Returns period covering the entire month at day-level precision
    */
-  export function fromMonth(year: number, month: number, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromMonth(year: number, month: number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
     // Optimization: Use timestamps directly (already midnight UTC)
     const startTime = Date.UTC(year, month - 1, 1);
     const endTime = Date.UTC(year, month, 1);
-    return new Period(startTime, endTime, bounds);
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
    * Create period from year (optimized for date-only operations)
    * Returns period covering the entire year at day-level precision
    */
-  export function fromYear(year: number, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromYear(year: number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
     // Optimization: Use timestamps directly (already midnight UTC)
     const startTime = Date.UTC(year, 0, 1);
     const endTime = Date.UTC(year + 1, 0, 1);
-    return new Period(startTime, endTime, bounds);
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
    * Create period from a single day (optimized for date-only operations)
-   * Returns a 1-day period for the specified date
+   * Returns a 1-day period for the specified date; with a zone, date-only strings
+   * name the calendar day in that zone and the period runs from its midnight to the next
    */
-  export function fromDay(date: Date | string, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const day = typeof date === 'string' ? new Date(date) : date;
-    // Optimization: Use timestamps directly (already midnight UTC)
-    const startTime = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
-    const endTime = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + 1);
-    return new Period(startTime, endTime, bounds);
+  export function fromDay(date: Date | string, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const startTime = calendarDateOf(date, zoneOf(bounds));
+    const endTime = startTime + 86400000;
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
    * Create period starting after a specific date (date-only operations)
-   * Duration is applied at day-level precision, minimum 1 day
+   * Duration is added the way a calendar does (2024-01-31 + P1M ends on 2024-02-29),
+   * rounded up to whole days, minimum 1 day
    */
-  export function after(start: Date | string, duration: DurationInterval, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const startDate = typeof start === 'string' ? new Date(start) : start;
+  export function after(start: Date | string, duration: DurationInterval, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const startTime = calendarDateOf(start, zoneOf(bounds));
     // Ensure minimum 1-day duration for date-only operations
-    const durationDays = Math.max(1, Math.ceil(duration.milliseconds / 86400000));
-    const endTime = startDate.getTime() + (durationDays * 86400000);
-    const endDate = new Date(endTime);
-    return new Period(startDate, endDate, bounds);
+    const endTime = Math.max(startTime + 86400000, ceilToDay(duration.addTo(startTime)));
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
    * Create period ending before a specific date (date-only operations)
-   * Duration is applied at day-level precision, minimum 1 day
+   * Duration is subtracted the way a calendar does, rounded up to whole days, minimum 1 day
    */
-  export function before(end: Date | string, duration: DurationInterval, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const endDate = typeof end === 'string' ? new Date(end) : end;
+  export function before(end: Date | string, duration: DurationInterval, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const endTime = calendarDateOf(end, zoneOf(bounds));
     // Ensure minimum 1-day duration for date-only operations
-    const durationDays = Math.max(1, Math.ceil(duration.milliseconds / 86400000));
-    const startTime = endDate.getTime() - (durationDays * 86400000);
-    const startDate = new Date(startTime);
-    return new Period(startDate, endDate, bounds);
+    const startTime = Math.min(endTime - 86400000, floorToDay(duration.subtractFrom(endTime)));
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
    * Create period centered around a specific date (date-only operations)
    * Duration is split evenly around the center date, minimum 1 day each side
    */
-  export function around(center: Date | string, duration: DurationInterval, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const centerDate = typeof center === 'string' ? new Date(center) : center;
+  export function around(center: Date | string, duration: DurationInterval, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const centerTime = calendarDateOf(center, zoneOf(bounds));
     // For date-only operations, ensure at least 1 day on each side
-    const durationDays = Math.max(2, Math.ceil(duration.milliseconds / 86400000)); // Minimum 2 days total
-    const halfDurationDays = Math.floor(durationDays / 2);
-    
-    const startTime = centerDate.getTime() - (halfDurationDays * 86400000);
-    const endTime = centerDate.getTime() + (halfDurationDays * 86400000);
-    const startDate = new Date(startTime);
-    const endDate = new Date(endTime);
-    return new Period(startDate, endDate, bounds);
+    const [before, after] = duration.split();
+    const startTime = Math.min(centerTime - 86400000, floorToDay(before.subtractFrom(centerTime)));
+    const endTime = Math.max(centerTime + 86400000, ceilToDay(after.addTo(centerTime)));
+    return fromCalendarDates(startTime, endTime, bounds);
+  }
+
+  /**
+   * Create period covering the next n business days of the calendar, starting with start's day
+   * Days are calendar days in the calendar's zone; weekends and holidays inside the period are skipped over,
+   * so a Friday start with n = 2 ends after Monday
+   */
+  export function afterBusinessDays(start: Date | string, n: number, calendar: BusinessCalendar, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`Business day count must be a positive integer: ${n}`);
+    }
+    const zone = calendar.zone;
+    const startTime = calendarDateOf(start, zone);
+    // The n-th business day after the previous day is the last one covered
+    const last = calendar.addBusinessDays(TimeZone.midnightOf(startTime - 86400000, zone), n);
+    const endTime = TimeZone.calendarDate(last.getTime(), zone) + 86400000;
+    return fromCalendarDates(startTime, endTime, typeof bounds === 'number' ? { bounds, zone } : { ...bounds, zone });
+  }
+
+  /**
+   * Create period without end: [start, ..)
+   * The infinite end is always excluded, so bounds only decide whether the start is included
+   */
+  export function from(start: Date | string | number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const [resolvedBounds, options] = resolve(bounds);
+    return new Period(start, Infinity, resolvedBounds, options);
+  }
+
+  /**
+   * Create period without start: (.., end)
+   * The infinite start is always excluded, so bounds only decide whether the end is included
+   */
+  export function until(end: Date | string | number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const [resolvedBounds, options] = resolve(bounds);
+    return new Period(-Infinity, end, resolvedBounds, options);
+  }
+
+  /**
+   * Create period covering all time: (.., ..)
+   */
+  export function all(options?: PeriodOptions): Period {
+    return new Period(-Infinity, Infinity, Bounds.ExcludeAll, options);
+  }
+
+  /**
+   * Create the empty period, which holds no point
+   * Equal to every other empty period, e.g. the intersection of two separate periods
+   */
+  export function empty(options?: PeriodOptions): Period {
+    return new Period(0, 0, Bounds.IncludeStartExcludeEnd, options);
+  }
+
+  /**
+   * Create the single instant [at, at]
+   * Precision defaults to the coarsest unit that keeps the instant exact
+   */
+  export function instant(at: Date | string | number, options?: PeriodOptions): Period {
+    const zone = options?.zone ?? 'UTC';
+    const timestamp = typeof at === 'number' ? at :
+                      typeof at === 'string' ? TimeZone.parse(at, zone) : at.getTime();
+    const precision = options?.precision ?? detectPrecision(timestamp, zone);
+    return new Period(timestamp, timestamp, Bounds.IncludeAll, { ...options, precision });
   }
 
   /**
    * Create period from ISO 8601 duration string starting at date
    * Combines parsing and construction for efficiency
    */
-  export function fromISO8601(start: Date | string, isoDuration: string, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromISO8601(start: Date | string, isoDuration: string, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
     const duration = DurationInterval.fromISO8601(isoDuration);
     return after(start, duration, bounds);
   }
 
+  /**
+   * Parse an ISO 8601 time interval: start/end, start/duration or duration/end
+   * Examples: '2024-01-01/2024-02-01', '2024-01-01/P1M', 'P1W/2024-03-01', '2024-01-01T09:00/10:30'
+   * The end may leave out leading components shared with the start; '--' is accepted in place of '/'.
+   * '..' marks an open endpoint (ISO 8601-2): '2024-01-01/..' has no end.
+   * Precision defaults to the coarsest unit that keeps both endpoints exact
+   */
+  export function parse(iso: string, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const [resolvedBounds, options] = resolve(bounds);
+    const zone = options?.zone ?? 'UTC';
+    const [first, second] = splitInterval(iso);
+
+    let startTime: number;
+    let endTime: number;
+    if (first === OPEN || second === OPEN) {
+      // Open endpoints pair with dates only - a duration needs an anchor
+      startTime = first === OPEN ? -Infinity : parseInstant(first, zone, iso);
+      endTime = second === OPEN ? Infinity : parseInstant(second, zone, iso);
+    } else if (isDuration(first)) {
+      endTime = parseInstant(second, zone, iso);
+      startTime = DurationInterval.fromISO8601(first).subtractFrom(endTime, zone);
+    } else {
+      startTime = parseInstant(first, zone, iso);
+      endTime = isDuration(second)
+        ? DurationInterval.fromISO8601(second).addTo(startTime, zone)
+        : parseInstant(completeEnd(first, second, iso), zone, iso);
+    }
+
+    const precision = options?.precision ?? Math.min(detectPrecision(startTime, zone), detectPrecision(endTime, zone));
+    return new Period(startTime, endTime, resolvedBounds, { ...options, precision });
+  }
+
+  /**
+   * Expand a repeating ISO 8601 interval into consecutive periods
+   * 'R12/2024-01-01/P1M' gives twelve months; 'R3/P1W/2024-03-01' three weeks ending on March 1.
+   * Calendar durations step from the fixed start (or end), so month ends stay month ends.
+   * Unbounded repetitions ('R/...' or 'R-1/...') need a window
+   */
+  export function repeating(iso: string, options: RepeatingOptions = {}): Period[] {
+    const match = ISO_REPEATING.exec(iso.trim());
+    if (!match) {
+      throw new Error(`Invalid ISO 8601 repeating interval: ${iso}`);
+    }
+
+    const { window, bounds = Bounds.IncludeStartExcludeEnd, ...periodOptions } = options;
+    const zone = periodOptions.zone ?? 'UTC';
+    const count = match[1] === '' || match[1] === '-1' ? Infinity : parseInt(match[1], 10);
+    if (count === Infinity && !window) {
+      throw new Error(`Unbounded ISO 8601 repetition needs a window: ${iso}`);
+    }
+
+    const [first, second] = splitInterval(match[2]);
+    const backward = isDuration(first);
+    let anchor: number;
+    let step: DurationInterval;
+    if (backward) {
+      anchor = parseInstant(second, zone, iso);
+      step = DurationInterval.fromISO8601(first);
+    } else {
+      anchor = parseInstant(first, zone, iso);
+      if (isDuration(second)) {
+        step = DurationInterval.fromISO8601(second);
+      } else {
+        const end = parseInstant(completeEnd(first, second, iso), zone, iso);
+        step = between(anchor, Math.max(end, anchor), zone);
+      }
+    }
+    // A zero-length step would repeat the same instant forever
+    if (step.milliseconds === 0) {
+      throw new Error(`ISO 8601 repetition needs a positive step: ${iso}`);
+    }
+    const precision = periodOptions.precision ?? Math.min(detectPrecision(anchor, zone), PrecisionUtils.detect(step.milliseconds));
+
+    const periods: Period[] = [];
+    for (let i = 0; i < count; i++) {
+      const near = i === 0 ? anchor : step.multiply(i)[backward ? 'subtractFrom' : 'addTo'](anchor, zone);
+      const far = step.multiply(i + 1)[backward ? 'subtractFrom' : 'addTo'](anchor, zone);
+      // Past the window in the direction of repetition
+      if (window && (backward ? near <= window.startTime : near >= window.endTime)) {
+        break;
+      }
+
+      const period = backward
+        ? new Period(far, near, bounds, { ...periodOptions, precision })
+        : new Period(near, far, bounds, { ...periodOptions, precision });
+      const clipped = window ? period.intersection(window) : period;
+      if (!clipped.isEmpty()) {
+        periods.push(clipped);
+      }
+    }
+
+    return backward ? periods.reverse() : periods;
+  }
+
   /**
    * Create period from ISO week (yyyy-Www format)
    * Optimized with direct UTC calculations
    */
-  export function fromWeek(year: number, week: number, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromWeek(year: number, week: number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
     // ISO week calculation
     // Week 1 is the first week with 4 or more days in the new year
     const jan4 = new Date(Date.UTC(year, 0, 4));
@@ -119,14 +295,14 @@ export namespace PeriodConstructors {
     const weekStart = new Date(week1Start.getTime() + (week - 1) * 7 * 86400000);
     const weekEnd = new Date(weekStart.getTime() + 7 * 86400000);
     
-    return new Period(weekStart.getTime(), weekEnd.getTime(), bounds);
+    return fromCalendarDates(weekStart.getTime(), weekEnd.getTime(), bounds);
   }
 
   /**
    * Create period from quarter (1-4)
    * Optimized with direct UTC calculations
    */
-  export function fromQuarter(year: number, quarter: number, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromQuarter(year: number, quarter: number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
     if (quarter < 1 || quarter > 4) {
       throw new Error('Quarter must be between 1 and 4');
     }
@@ -135,81 +311,198 @@ export namespace PeriodConstructors {
     const startTime = Date.UTC(year, startMonth, 1);
     const endTime = Date.UTC(year, startMonth + 3, 1);
     
-    return new Period(startTime, endTime, bounds);
+    return fromCalendarDates(startTime, endTime, bounds);
   }
 
   /**
-   * Create period from millisecond timestamps (date-only operations)
-   * Timestamps are normalized to midnight UTC for consistent behavior
+   * Create period from millisecond timestamps
+   * Timestamps are normalized to midnight UTC unless a finer precision or a zone is requested
    */
-  export function fromTimestamps(startMs: number, endMs: number, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromTimestamps(startMs: number, endMs: number, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd, options?: PeriodOptions): Period {
     // Optimization: Pass timestamps directly (will be normalized by Period constructor)
-    return new Period(startMs, endMs, bounds);
+    const [resolvedBounds, resolvedOptions] = resolve(bounds, options);
+    return new Period(startMs, endMs, resolvedBounds, resolvedOptions);
   }
 
   /**
-   * Create period representing today (current date in local timezone)
+   * Create period representing today (current date in UTC, or in the given zone)
    * Returns a 1-day period for today at date-only precision
    */
-  export function today(bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const now = new Date();
-    const startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-    return new Period(startDate, endDate, bounds);
+  export function today(bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    return fromDay(new Date(), bounds);
   }
 
   /**
    * Create period representing this week (Monday to Sunday)
-   * Uses ISO week calculation with date-only precision
+   * Uses ISO week calculation with date-only precision, in UTC or the given zone
    */
-  export function thisWeek(bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const now = new Date();
-    const currentDay = now.getDay() || 7; // Sunday = 7, Monday = 1
-    const monday = new Date(now.getTime() - (currentDay - 1) * 86400000);
-    monday.setHours(0, 0, 0, 0);
+  export function thisWeek(bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const todayTime = calendarDateOf(new Date(), zoneOf(bounds));
+    const currentDay = new Date(todayTime).getUTCDay() || 7; // Sunday = 7, Monday = 1
+    const monday = todayTime - (currentDay - 1) * 86400000;
     
-    const sunday = new Date(monday.getTime() + 7 * 86400000);
-    return new Period(monday, sunday, bounds);
+    const sunday = monday + 7 * 86400000;
+    return fromCalendarDates(monday, sunday, bounds);
   }
 
   /**
    * Create period representing this month
-   * Uses current date's month
+   * Uses current date's month (in UTC, or in the given zone)
    */
-  export function thisMonth(bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const now = new Date();
-    return fromMonth(now.getFullYear(), now.getMonth() + 1, bounds);
+  export function thisMonth(bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const now = new Date(calendarDateOf(new Date(), zoneOf(bounds)));
+    return fromMonth(now.getUTCFullYear(), now.getUTCMonth() + 1, bounds);
   }
 
   /**
    * Create period representing this year
-   * Uses current date's year
+   * Uses current date's year (in UTC, or in the given zone)
    */
-  export function thisYear(bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const now = new Date();
-    return fromYear(now.getFullYear(), bounds);
+  export function thisYear(bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    const now = new Date(calendarDateOf(new Date(), zoneOf(bounds)));
+    return fromYear(now.getUTCFullYear(), bounds);
   }
 
   /**
    * Create period starting from today with specified duration (date-only operations)
    * Uses current date as starting point, duration rounded up to whole days
    */
-  export function fromToday(duration: DurationInterval, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
-    const startDate = new Date();
-    const durationDays = Math.max(1, Math.ceil(duration.milliseconds / 86400000));
-    const endTime = startDate.getTime() + (durationDays * 86400000);
-    const endDate = new Date(endTime);
-    return new Period(startDate, endDate, bounds);
+  export function fromToday(duration: DurationInterval, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd): Period {
+    return after(new Date(), duration, bounds);
   }
 
   /**
    * Create period with specified duration starting from given time
-   * Alias for 'after' with clearer naming
+   * Precision defaults to the coarsest unit both the start and the duration are whole multiples of,
+   * so fromDuration('09:00', PT4H) keeps hour precision and fromDuration('09:30', PT4H) minute precision
    */
-  export function fromDuration(start: Date | string | number, duration: DurationInterval, bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+  export function fromDuration(start: Date | string | number, duration: DurationInterval, bounds: Bounds | ConstructorOptions = Bounds.IncludeStartExcludeEnd, options?: PeriodOptions): Period {
+    const [resolvedBounds, resolvedOptions] = resolve(bounds, options);
+    const zone = resolvedOptions?.zone ?? 'UTC';
     const startTime = typeof start === 'number' ? start : 
-                      typeof start === 'string' ? new Date(start).getTime() : start.getTime();
-    const endTime = startTime + duration.milliseconds;
-    return new Period(startTime, endTime, bounds);
+                      typeof start === 'string' ? TimeZone.parse(start, zone) : start.getTime();
+    const endTime = duration.addTo(startTime, zone);
+    const precision = resolvedOptions?.precision ?? Math.min(detectPrecision(startTime, zone), PrecisionUtils.detect(duration.milliseconds));
+    return new Period(startTime, endTime, resolvedBounds, { ...resolvedOptions, precision });
+  }
+
+  /**
+   * Split a Bounds-or-options argument into bounds and period options
+   */
+  function resolve(bounds: Bounds | ConstructorOptions, options?: PeriodOptions): [Bounds, PeriodOptions | undefined] {
+    if (typeof bounds === 'number') {
+      return [bounds, options];
+    }
+    const { bounds: resolvedBounds = Bounds.IncludeStartExcludeEnd, ...rest } = bounds;
+    return [resolvedBounds, options ? { ...rest, ...options } : rest];
+  }
+
+  /**
+   * Zone requested through a Bounds-or-options argument (UTC if none)
+   */
+  function zoneOf(bounds: Bounds | ConstructorOptions): string {
+    return typeof bounds === 'number' ? 'UTC' : bounds.zone ?? 'UTC';
+  }
+
+  /**
+   * Calendar date of the input in the zone, as a midnight UTC timestamp
+   * Date-only strings name the calendar day directly
+   */
+  function calendarDateOf(date: Date | string, zone: string): number {
+    const timestamp = typeof date === 'string' ? TimeZone.parse(date, zone) : date.getTime();
+    return TimeZone.calendarDate(timestamp, zone);
+  }
+
+  /**
+   * Split an ISO 8601 interval into its two parts
+   */
+  function splitInterval(iso: string): [string, string] {
+    const trimmed = iso.trim();
+    const parts = trimmed.includes('/') ? trimmed.split('/') : trimmed.split('--');
+    if (parts.length !== 2 || parts[0] === '' || parts[1] === '' || (isDuration(parts[0]) && isDuration(parts[1]))) {
+      throw new Error(`Invalid ISO 8601 interval: ${iso}`);
+    }
+    return [parts[0], parts[1]];
+  }
+
+  /**
+   * Check whether an interval part is a duration (P...)
+   */
+  function isDuration(part: string): boolean {
+    return part.startsWith('P');
+  }
+
+  /**
+   * Parse one endpoint; strings without an offset are wall-clock time in the zone
+   */
+  function parseInstant(value: string, zone: string, iso: string): number {
+    const timestamp = isDuration(value) ? NaN : TimeZone.parse(value, zone);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid ISO 8601 interval: ${iso}`);
+    }
+    return timestamp;
+  }
+
+  /**
+   * Fill in the leading components an abbreviated end shares with the start
+   * ('2024-01-01/05' ends on 2024-01-05, '2024-01-01T09:00Z/10:30' at 10:30Z)
+   */
+  function completeEnd(start: string, end: string, iso: string): string {
+    if (/^\d{4}-/.test(end)) {
+      return end;
+    }
+    const [, startBody, startZone = ''] = ISO_ZONE_SUFFIX.exec(start)!;
+    const [, endBody, endZone] = ISO_ZONE_SUFFIX.exec(end)!;
+    if (endBody.length >= startBody.length) {
+      throw new Error(`Invalid ISO 8601 interval: ${iso}`);
+    }
+    return startBody.slice(0, startBody.length - endBody.length) + endBody + (endZone ?? startZone);
+  }
+
+  /**
+   * Duration from start to end: whole calendar days between midnights, exact time otherwise
+   */
+  function between(startTime: number, endTime: number, zone: string): DurationInterval {
+    if (detectPrecision(startTime, zone) === Precision.Day && detectPrecision(endTime, zone) === Precision.Day) {
+      const days = Math.round((TimeZone.calendarDate(endTime, zone) - TimeZone.calendarDate(startTime, zone)) / 86400000);
+      return DurationInterval.fromDays(days);
+    }
+    return new DurationInterval(endTime - startTime);
+  }
+
+  /**
+   * Coarsest precision that keeps a timestamp exact on the zone's wall clock
+   */
+  function detectPrecision(timestamp: number, zone: string): Precision {
+    // Open endpoints fit any precision
+    if (timestamp === Infinity || timestamp === -Infinity) {
+      return Precision.Day;
+    }
+    const offset = TimeZone.isUTC(zone) ? 0 : TimeZone.offset(timestamp, zone);
+    return PrecisionUtils.detect(timestamp + offset);
+  }
+
+  /**
+   * Round a UTC timestamp down to midnight UTC
+   */
+  function floorToDay(timestamp: number): number {
+    return Math.floor(timestamp / 86400000) * 86400000;
+  }
+
+  /**
+   * Round a UTC timestamp up to midnight UTC
+   */
+  function ceilToDay(timestamp: number): number {
+    return Math.ceil(timestamp / 86400000) * 86400000;
+  }
+
+  /**
+   * Build a period from calendar dates (midnight UTC timestamps)
+   * Maps both dates onto midnight in the requested zone
+   */
+  function fromCalendarDates(startDate: number, endDate: number, bounds: Bounds | ConstructorOptions): Period {
+    const [resolvedBounds, options] = resolve(bounds);
+    const zone = options?.zone ?? 'UTC';
+    return new Period(TimeZone.midnightOf(startDate, zone), TimeZone.midnightOf(endDate, zone), resolvedBounds, options);
   }
 }
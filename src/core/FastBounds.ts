@@ -49,13 +49,84 @@ export class FastBounds {
 
   /**
    * Fast boundary combination for intersections
-   * Returns the most restrictive bounds
+   * Each endpoint comes from the interval with the later start / earlier end
+   * (startOrder / endOrder compare interval 1 to interval 2: -1, 0 or 1);
+   * on a tie it stays inclusive only if both are. With the default ties on
+   * both ends this is the most restrictive of the two bounds.
    */
-  static intersectBounds(bounds1: Bounds, bounds2: Bounds): Bounds {
-    const combined = BOUNDS_BITS[bounds1] & BOUNDS_BITS[bounds2];
-    
+  static intersectBounds(bounds1: Bounds, bounds2: Bounds, startOrder: number = 0, endOrder: number = 0): Bounds {
+    const bits1 = BOUNDS_BITS[bounds1];
+    const bits2 = BOUNDS_BITS[bounds2];
+    const tie = bits1 & bits2;
+
+    const startBits = startOrder > 0 ? bits1 : startOrder < 0 ? bits2 : tie;
+    const endBits = endOrder < 0 ? bits1 : endOrder > 0 ? bits2 : tie;
+
+    return FastBounds.fromBits((startBits & BOUNDS_MASKS.START_INCLUSIVE) | (endBits & BOUNDS_MASKS.END_INCLUSIVE));
+  }
+
+  /**
+   * Fast boundary combination for unions
+   * Each endpoint comes from the interval with the earlier start / later end;
+   * on a tie it is inclusive if either is
+   */
+  static unionBounds(bounds1: Bounds, bounds2: Bounds, startOrder: number = 0, endOrder: number = 0): Bounds {
+    const bits1 = BOUNDS_BITS[bounds1];
+    const bits2 = BOUNDS_BITS[bounds2];
+    const tie = bits1 | bits2;
+
+    const startBits = startOrder < 0 ? bits1 : startOrder > 0 ? bits2 : tie;
+    const endBits = endOrder > 0 ? bits1 : endOrder < 0 ? bits2 : tie;
+
+    return FastBounds.fromBits((startBits & BOUNDS_MASKS.START_INCLUSIVE) | (endBits & BOUNDS_MASKS.END_INCLUSIVE));
+  }
+
+  /**
+   * Bounds of the gap between two separate intervals
+   * The gap includes an endpoint exactly when the neighbouring interval excludes it
+   */
+  static gapBounds(before: Bounds, after: Bounds): Bounds {
+    const startBits = (~BOUNDS_BITS[before] & BOUNDS_MASKS.END_INCLUSIVE) >> 1;
+    const endBits = (~BOUNDS_BITS[after] & BOUNDS_MASKS.START_INCLUSIVE) << 1;
+    return FastBounds.fromBits(startBits | endBits);
+  }
+
+  /**
+   * Bounds of the part of an interval left before a cut
+   * Keeps the interval's start; the cut point stays only if the cutter excludes it
+   */
+  static headBounds(bounds: Bounds, cutter: Bounds): Bounds {
+    const startBits = BOUNDS_BITS[bounds] & BOUNDS_MASKS.START_INCLUSIVE;
+    const endBits = (~BOUNDS_BITS[cutter] & BOUNDS_MASKS.START_INCLUSIVE) << 1;
+    return FastBounds.fromBits(startBits | endBits);
+  }
+
+  /**
+   * Bounds of the part of an interval left after a cut
+   * Keeps the interval's end; the cut point stays only if the cutter excludes it
+   */
+  static tailBounds(cutter: Bounds, bounds: Bounds): Bounds {
+    const startBits = (~BOUNDS_BITS[cutter] & BOUNDS_MASKS.END_INCLUSIVE) >> 1;
+    const endBits = BOUNDS_BITS[bounds] & BOUNDS_MASKS.END_INCLUSIVE;
+    return FastBounds.fromBits(startBits | endBits);
+  }
+
+  /**
+   * Bounds with infinite endpoints excluded - no instant reaches -∞ or +∞
+   */
+  static excludeInfinite(bounds: Bounds, startTime: number, endTime: number): Bounds {
+    let bits: number = BOUNDS_BITS[bounds];
+    if (startTime === -Infinity) bits &= ~BOUNDS_MASKS.START_INCLUSIVE;
+    if (endTime === Infinity) bits &= ~BOUNDS_MASKS.END_INCLUSIVE;
+    return FastBounds.fromBits(bits);
+  }
+
+  /**
+   * Map a bit pattern back to the bounds enum
+   */
+  static fromBits(bits: number): Bounds {
     // Map back to bounds enum using lookup table
-    switch (combined) {
+    switch (bits & 0b11) {
       case 0b00: return Bounds.ExcludeAll;
       case 0b01: return Bounds.IncludeStartExcludeEnd;
       case 0b10: return Bounds.ExcludeStartIncludeEnd;
@@ -104,4 +175,8 @@ export const OptimizedBoundsUtils = {
   isEndInclusive: FastBounds.isEndInclusive,
   touchingOverlaps: FastBounds.touchingOverlaps,
   intersectBounds: FastBounds.intersectBounds,
+  unionBounds: FastBounds.unionBounds,
+  gapBounds: FastBounds.gapBounds,
+  headBounds: FastBounds.headBounds,
+  tailBounds: FastBounds.tailBounds,
 };
@@ -1,29 +1,94 @@
 /**
  * High-performance Period class for date period handling
- * Immutable value object representing time spans at day-level precision
+ * Immutable value object representing time spans at day-level precision by default,
+ * with optional hour, minute, second or millisecond precision and an optional IANA time zone.
+ * Endpoints may be -Infinity / +Infinity for periods without start or end; equal endpoints
+ * give a single instant [a, a] with Bounds.IncludeAll and the empty period otherwise
  */
 
-import { Bounds, Duration, BoundsUtils } from './types';
-import { FastBounds } from './FastBounds';
+import { Bounds, Duration, BoundsUtils, Precision, PeriodOptions, PrecisionUtils, AllenRelation, JSONUtils, JSON_SCHEMA_VERSION, PeriodJSON, Weekday } from './types';
+import { FastBounds, BOUNDS_BITS, BOUNDS_MASKS } from './FastBounds';
+import { TimeZone } from './TimeZone';
+import { PeriodSettings } from './PeriodSettings';
+import { Sequence } from '../sequence/Sequence';
+
+// Notation of the empty period
+const EMPTY_NOTATION = '∅';
+
+const DAY_MS = 86400000;
+
+// ISO string length shown per precision (indexed by Precision)
+const ISO_FORMAT_LENGTHS: readonly number[] = [23, 19, 16, 16, 10];
+
+// Relations of periods sharing points, indexed by [start comparison + 1][end comparison + 1]
+const SHARED_RELATIONS: readonly (readonly AllenRelation[])[] = [
+  ['overlaps', 'finishedBy', 'contains'],
+  ['starts', 'equals', 'startedBy'],
+  ['during', 'finishes', 'overlappedBy']
+];
+
+/**
+ * Three-way timestamp comparison (-1, 0, 1)
+ */
+function compareTimes(a: number, b: number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
 
 export class Period {
-  // Store as midnight UTC timestamps for consistent day-level operations
+  // Store as UTC timestamps truncated to the period's precision (midnight UTC by default)
   private readonly _startTime: number;
   private readonly _endTime: number;
   private readonly _bounds: Bounds;
+  private readonly _precision: Precision;
+  // Undefined means UTC, which keeps the timestamp fast paths
+  private readonly _zone?: string;
+
+  constructor(start: Date | number | string, end: Date | number | string, bounds: Bounds = Bounds.IncludeStartExcludeEnd, options?: PeriodOptions) {
+    this._precision = options?.precision ?? Precision.Day;
+    if (options?.zone !== undefined && !TimeZone.isUTC(options.zone)) {
+      if (!TimeZone.isValid(options.zone)) {
+        throw new Error(`Invalid time zone: ${options.zone}`);
+      }
+      this._zone = options.zone;
+    }
 
-  constructor(start: Date | number | string, end: Date | number | string, bounds: Bounds = Bounds.IncludeStartExcludeEnd) {
-    // Normalize all inputs to midnight UTC
-    const startTime = this._normalizeDateToMidnightUTC(start);
-    const endTime = this._normalizeDateToMidnightUTC(end);
+    // Normalize all inputs to the configured precision
+    const startTime = this._normalize(start);
+    const endTime = this._normalize(end);
 
-    if (startTime >= endTime) {
-      throw new Error('Start date must be before end date');
+    if (startTime > endTime || startTime === Infinity || endTime === -Infinity) {
+      throw new Error('Start date must not be after end date');
     }
 
     this._startTime = startTime;
     this._endTime = endTime;
-    this._bounds = bounds;
+    this._bounds = startTime === -Infinity || endTime === Infinity ? FastBounds.excludeInfinite(bounds, startTime, endTime) : bounds;
+  }
+
+  /**
+   * Normalize any date input to the period's precision
+   * Day precision keeps the dedicated midnight UTC fast path; zoned periods
+   * truncate on the zone's wall clock (midnight in the zone for day precision)
+   */
+  private _normalize(input: Date | number | string): number {
+    // Infinite endpoints have no calendar position to truncate
+    if (input === Infinity || input === -Infinity) {
+      return input;
+    }
+
+    if (this._zone !== undefined) {
+      const timestamp = typeof input === 'number' ? input :
+                        typeof input === 'string' ? TimeZone.parse(input, this._zone) : input.getTime();
+      return TimeZone.truncate(timestamp, this._precision, this._zone);
+    }
+
+    if (this._precision === Precision.Day) {
+      return this._normalizeDateToMidnightUTC(input);
+    }
+
+    const timestamp = typeof input === 'number' ? input :
+                      typeof input === 'string' ? new Date(input).getTime() : input.getTime();
+    return PrecisionUtils.truncate(timestamp, this._precision);
   }
 
   /**
@@ -65,6 +130,7 @@ export class Period {
 
   /**
    * Get start date (creates new Date object only when needed)
+   * Invalid Date for periods without start - check isBounded() or startTime first
    */
   get start(): Date {
     return new Date(this._startTime);
@@ -72,6 +138,7 @@ export class Period {
 
   /**
    * Get end date (creates new Date object only when needed)
+   * Invalid Date for periods without end
    */
   get end(): Date {
     return new Date(this._endTime);
@@ -85,36 +152,90 @@ export class Period {
   }
 
   /**
-   * Get start timestamp (high performance accessor)
+   * Get endpoint precision
+   */
+  get precision(): Precision {
+    return this._precision;
+  }
+
+  /**
+   * Get IANA time zone ('UTC' unless a zone was given)
+   */
+  get zone(): string {
+    return this._zone ?? 'UTC';
+  }
+
+  /**
+   * Get start timestamp (high performance accessor), -Infinity without start
    */
   get startTime(): number {
     return this._startTime;
   }
 
   /**
-   * Get end timestamp (high performance accessor)
+   * Get end timestamp (high performance accessor), +Infinity without end
    */
   get endTime(): number {
     return this._endTime;
   }
 
+  /**
+   * Check if both endpoints are finite
+   */
+  isBounded(): boolean {
+    return this._startTime !== -Infinity && this._endTime !== Infinity;
+  }
+
+  /**
+   * Check if the period holds no point: equal endpoints that are not both included
+   * Under discrete semantics: no whole unit is covered, so (Jan 1, Jan 2) is empty too
+   */
+  isEmpty(): boolean {
+    if (PeriodSettings.discrete) {
+      const [startTime, endTime] = this._canonicalRange();
+      return startTime >= endTime;
+    }
+    return this._coversNothing();
+  }
+
+  /**
+   * Check if the period is the single instant [a, a]
+   */
+  isInstant(): boolean {
+    return this._startTime === this._endTime && this._bounds === Bounds.IncludeAll;
+  }
+
   /**
    * Get duration in days (optimized for date-only operations)
-   * Much faster than getDuration().days for simple day calculations
+   * Much faster than getDuration().days for simple day calculations.
+   * Zoned day-precision periods count calendar days, so 23/25-hour DST days count as one.
+   * Under discrete semantics only covered units count, so (Jan 1, Jan 5] has 4 days
    */
   get durationInDays(): number {
-    return (this._endTime - this._startTime) / 86400000;
+    let startTime = this._startTime;
+    let endTime = this._endTime;
+    if (PeriodSettings.discrete) {
+      [startTime, endTime] = this._canonicalRange();
+    }
+    const days = Math.max(0, endTime - startTime) / 86400000;
+    return this._zone !== undefined && this._precision === Precision.Day ? Math.round(days) : days;
   }
 
   /**
-   * Calculate duration with day-level precision
+   * Calculate duration at the period's precision
+   * Each field is the whole number of that unit in the period
    */
   getDuration(): Duration {
-    const milliseconds = this._endTime - this._startTime;
-    const days = Math.floor(milliseconds / 86400000);
-    const hours = days * 24;
-    const minutes = hours * 60;
-    const seconds = minutes * 60;
+    let startTime = this._startTime;
+    let endTime = this._endTime;
+    if (PeriodSettings.discrete) {
+      [startTime, endTime] = this._canonicalRange();
+    }
+    const milliseconds = Math.max(0, endTime - startTime);
+    const seconds = Math.floor(milliseconds / 1000);
+    const minutes = Math.floor(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const days = this._precision === Precision.Day ? this.durationInDays : Math.floor(hours / 24);
 
     return {
       milliseconds,
@@ -132,6 +253,16 @@ export class Period {
    * @returns True if periods overlap, false otherwise
    */
   overlaps(other: Period): boolean {
+    if (this._needsDiscrete(other)) {
+      const a = this._toDiscrete();
+      const b = other._toDiscrete();
+      return a !== null && b !== null && a.overlaps(b);
+    }
+
+    if (this._coversNothing() || other._coversNothing()) {
+      return false;
+    }
+
     // Fast path: check if periods are completely separate (no touching)
     if (this._endTime < other._startTime || other._endTime < this._startTime) {
       return false;
@@ -160,14 +291,30 @@ export class Period {
    * Optimized for performance with inlined bounds awareness
    */
   contains(other: Period): boolean {
+    if (PeriodSettings.discrete) {
+      // Subset test on the covered units; covering nothing is a subset of anything
+      const [thisStart, thisEnd] = this._canonicalRange();
+      const [otherStart, otherEnd] = other._canonicalRange();
+      return otherStart >= otherEnd || (thisStart <= otherStart && otherEnd <= thisEnd);
+    }
+
+    // The empty period is a subset of every period and contains no other
+    if (other._coversNothing()) {
+      return true;
+    }
+    if (this._coversNothing()) {
+      return false;
+    }
+
     // Inline bounds checking for performance
+    // Infinite endpoints are excluded, yet reach past anything the other period covers
     const thisStartValid = (this._bounds === Bounds.IncludeStartExcludeEnd || this._bounds === Bounds.IncludeAll)
       ? this._startTime <= other._startTime
-      : this._startTime < other._startTime;
+      : this._startTime < other._startTime || this._startTime === -Infinity;
 
     const thisEndValid = (this._bounds === Bounds.ExcludeStartIncludeEnd || this._bounds === Bounds.IncludeAll)
       ? this._endTime >= other._endTime
-      : this._endTime > other._endTime;
+      : this._endTime > other._endTime || this._endTime === Infinity;
 
     return thisStartValid && thisEndValid;
   }
@@ -177,7 +324,8 @@ export class Period {
    * High-performance timestamp comparison with inlined bounds checking
    */
   containsDate(date: Date | number): boolean {
-    const timestamp = typeof date === 'number' ? date : date.getTime();
+    // Truncate to the period's precision so a time within an excluded day/hour is excluded too
+    const timestamp = this._normalize(date);
 
     // Inline bounds checking for maximum performance
     const startValid = (this._bounds === Bounds.IncludeStartExcludeEnd || this._bounds === Bounds.IncludeAll)
@@ -196,6 +344,9 @@ export class Period {
    * For date-only periods, this means consecutive days
    */
   touches(other: Period): boolean {
+    if (this._coversNothing() || other._coversNothing()) {
+      return false;
+    }
     return (this._endTime === other._startTime) || (other._endTime === this._startTime);
   }
 
@@ -216,13 +367,112 @@ export class Period {
   }
 
   /**
-   * Fast equality check using timestamps and bounds
-   * Optimized with early returns
+   * Fast equality check using timestamps and bounds; all empty periods are equal
+   * Under discrete semantics periods are equal when they cover the same units
    */
   equals(other: Period): boolean {
-    return this._startTime === other._startTime && 
-           this._endTime === other._endTime && 
-           this._bounds === other._bounds;
+    if (PeriodSettings.discrete) {
+      const [thisStart, thisEnd] = this._canonicalRange();
+      const [otherStart, otherEnd] = other._canonicalRange();
+      return (thisStart === otherStart && thisEnd === otherEnd) ||
+             (thisStart >= thisEnd && otherStart >= otherEnd);
+    }
+
+    return (this._startTime === other._startTime &&
+            this._endTime === other._endTime &&
+            this._bounds === other._bounds) ||
+           (this._coversNothing() && other._coversNothing());
+  }
+
+  /**
+   * Key for Map/Set lookups - periods that are equal() share the same key
+   * Under discrete semantics the key is built from the canonical [start, end) form
+   */
+  key(): string {
+    if (PeriodSettings.discrete) {
+      const [startTime, endTime] = this._canonicalRange();
+      return startTime < endTime ? `${startTime}/${endTime}` : 'empty';
+    }
+    return this._coversNothing() ? 'empty' : `${this._startTime}/${this._endTime}/${this._bounds}`;
+  }
+
+  /**
+   * Convert to another bounds notation covering the same units
+   * Endpoints move by one precision unit (one day by default): (Jan 1, Jan 5] becomes [Jan 2, Jan 6),
+   * and a single day [Jan 1, Jan 2) becomes [Jan 1, Jan 1]. Periods covering no whole unit give the empty period
+   */
+  canonicalize(bounds: Bounds = Bounds.IncludeStartExcludeEnd): Period {
+    if (bounds === this._bounds) {
+      return this;
+    }
+
+    const [startTime, endTime] = this._canonicalRange();
+    if (startTime >= endTime) {
+      // [a, a] would be an instant, so the empty period keeps half-open bounds
+      return this._derive(startTime, startTime, bounds === Bounds.IncludeAll ? Bounds.IncludeStartExcludeEnd : bounds);
+    }
+    return this._derive(
+      FastBounds.isStartInclusive(bounds) ? startTime : this._step(startTime, -1),
+      FastBounds.isEndInclusive(bounds) ? this._step(endTime, -1) : endTime,
+      bounds
+    );
+  }
+
+  /**
+   * Canonical [start, end) form used by discrete semantics, or null if no whole unit is covered
+   * @internal
+   */
+  _toDiscrete(): Period | null {
+    if (this._isCanonical()) {
+      return this;
+    }
+    const [startTime, endTime] = this._canonicalRange();
+    return startTime < endTime ? this._derive(startTime, endTime, Bounds.IncludeStartExcludeEnd) : null;
+  }
+
+  /**
+   * Endpoints of the canonical [start, end) form (start >= end when no unit is covered)
+   */
+  private _canonicalRange(): [number, number] {
+    const startTime = FastBounds.isStartInclusive(this._bounds) ? this._startTime : this._step(this._startTime, 1);
+    const endTime = FastBounds.isEndInclusive(this._bounds) ? this._step(this._endTime, 1) : this._endTime;
+    return [startTime, endTime];
+  }
+
+  /**
+   * Empty under continuous semantics (no discrete checks, for hot paths)
+   * @internal
+   */
+  _coversNothing(): boolean {
+    return this._startTime === this._endTime && this._bounds !== Bounds.IncludeAll;
+  }
+
+  /**
+   * Check if the period is in the canonical [start, end) form (an infinite start is always excluded)
+   */
+  private _isCanonical(): boolean {
+    return this._bounds === Bounds.IncludeStartExcludeEnd || (this._bounds === Bounds.ExcludeAll && this._startTime === -Infinity);
+  }
+
+  /**
+   * Move a timestamp by whole precision units (calendar days for zoned periods)
+   * Infinite timestamps stay where they are
+   */
+  private _step(timestamp: number, units: number): number {
+    if (timestamp === Infinity || timestamp === -Infinity) {
+      return timestamp;
+    }
+    if (this._zone !== undefined && this._precision === Precision.Day) {
+      return TimeZone.addDays(timestamp, units, this._zone);
+    }
+    return timestamp + units * PrecisionUtils.unitMs(this._precision);
+  }
+
+  /**
+   * True if discrete semantics apply and either period is not yet in canonical form
+   */
+  private _needsDiscrete(other: Period): boolean {
+    return PeriodSettings.discrete && (!this._isCanonical() || !other._isCanonical());
   }
 
   /**
@@ -230,7 +480,7 @@ export class Period {
    * Optimized constructor call
    */
   startingOn(start: Date | number): Period {
-    return new Period(start, this._endTime, this._bounds);
+    return this._derive(start, this._endTime);
   }
 
   /**
@@ -238,7 +488,7 @@ export class Period {
    * Optimized constructor call
    */
   endingOn(end: Date | number): Period {
-    return new Period(this._startTime, end, this._bounds);
+    return this._derive(this._startTime, end);
   }
 
   /**
@@ -246,24 +496,71 @@ export class Period {
    * Optimized constructor call
    */
   withBounds(bounds: Bounds): Period {
-    return new Period(this._startTime, this._endTime, bounds);
+    return this._derive(this._startTime, this._endTime, bounds);
+  }
+
+  /**
+   * Create new period with different precision
+   * Endpoints are re-normalized, so coarser precision truncates them
+   */
+  withPrecision(precision: Precision): Period {
+    return this._derive(this._startTime, this._endTime, this._bounds, { precision, zone: this._zone });
+  }
+
+  /**
+   * Create new period in another time zone
+   * Endpoints are re-normalized to the new zone's day (or hour, ...) boundaries
+   */
+  withZone(zone: string): Period {
+    return this._derive(this._startTime, this._endTime, this._bounds, { precision: this._precision, zone });
+  }
+
+  /**
+   * Internal factory for periods derived from this one
+   * Carries over precision and zone so every operation stays at the same granularity;
+   * subclasses override it to carry their own state (e.g. TaggedPeriod payloads)
+   * @internal
+   */
+  _derive(start: Date | number | string, end: Date | number | string, bounds: Bounds = this._bounds,
+          options: PeriodOptions = { precision: this._precision, zone: this._zone }): Period {
+    return new Period(start, end, bounds, options);
+  }
+
+  /**
+   * Internal factory for plain periods at this period's precision and zone
+   * Used for results that belong to neither input, such as gaps and boundaries
+   * @internal
+   */
+  _plain(start: Date | number | string, end: Date | number | string, bounds: Bounds = this._bounds): Period {
+    return new Period(start, end, bounds, { precision: this._precision, zone: this._zone });
+  }
+
+  /**
+   * Internal hook for combining state when a result comes from two periods
+   * Plain periods carry nothing, so the result is returned as is
+   * @internal
+   */
+  _combine<A, B>(_other: Period, result: Period, _combine?: PayloadCombiner<A, B>): Period {
+    return result;
   }
 
   /**
    * Internal method for object pooling - reset period with new values
    * @internal
    */
-  _reset(start: Date | number | string, end: Date | number | string, bounds: Bounds): void {
-    const startTime = this._normalizeDateToMidnightUTC(start);
-    const endTime = this._normalizeDateToMidnightUTC(end);
+  _reset(start: Date | number | string, end: Date | number | string, bounds: Bounds, options?: PeriodOptions): void {
+    (this as any)._precision = options?.precision ?? Precision.Day;
+    (this as any)._zone = options?.zone !== undefined && !TimeZone.isUTC(options.zone) ? options.zone : undefined;
+    const startTime = this._normalize(start);
+    const endTime = this._normalize(end);
 
-    if (startTime >= endTime) {
-      throw new Error('Start date must be before end date');
+    if (startTime > endTime || startTime === Infinity || endTime === -Infinity) {
+      throw new Error('Start date must not be after end date');
     }
 
     (this as any)._startTime = startTime;
     (this as any)._endTime = endTime;
-    (this as any)._bounds = bounds;
+    (this as any)._bounds = FastBounds.excludeInfinite(bounds, startTime, endTime);
     
     // Clear any cached values
     this._clearCache();
@@ -280,21 +577,21 @@ export class Period {
 
   /**
    * Create new period with specific duration from start
-   * Optimized with direct timestamp calculation
+   * Calendar components are added the way a calendar does (month ends clamp)
    */
   withDuration(duration: import('../duration/DurationInterval').DurationInterval): Period {
-    const endTime = this._startTime + duration.milliseconds;
-    return new Period(this._startTime, endTime, this._bounds);
+    const endTime = duration.addTo(this._startTime, this.zone);
+    return this._derive(this._startTime, endTime);
   }
 
   /**
    * Move period by shifting both start and end by duration
-   * Optimized with direct timestamp operations
+   * Calendar-aware: moving [Jan 1, Feb 1) by P1M gives [Feb 1, Mar 1)
    */
   move(duration: import('../duration/DurationInterval').DurationInterval): Period {
-    const startTime = this._startTime + duration.milliseconds;
-    const endTime = this._endTime + duration.milliseconds;
-    return new Period(startTime, endTime, this._bounds);
+    const startTime = duration.addTo(this._startTime, this.zone);
+    const endTime = duration.addTo(this._endTime, this.zone);
+    return this._derive(startTime, endTime);
   }
 
   /**
@@ -302,97 +599,277 @@ export class Period {
    * Convenience method for negative movement
    */
   moveBackward(duration: import('../duration/DurationInterval').DurationInterval): Period {
-    const startTime = this._startTime - duration.milliseconds;
-    const endTime = this._endTime - duration.milliseconds;
-    return new Period(startTime, endTime, this._bounds);
+    const startTime = duration.subtractFrom(this._startTime, this.zone);
+    const endTime = duration.subtractFrom(this._endTime, this.zone);
+    return this._derive(startTime, endTime);
   }
 
   /**
    * Expand period by duration in both directions
-   * Optimized with single calculation
+   * Half the duration is applied on each side; an odd number of calendar units
+   * puts the extra unit after the end
    */
   expand(duration: import('../duration/DurationInterval').DurationInterval): Period {
-    const halfDuration = duration.milliseconds * 0.5;
-    const startTime = this._startTime - halfDuration;
-    const endTime = this._endTime + halfDuration;
-    return new Period(startTime, endTime, this._bounds);
+    const [before, after] = duration.split();
+    const startTime = before.subtractFrom(this._startTime, this.zone);
+    const endTime = after.addTo(this._endTime, this.zone);
+    return this._derive(startTime, endTime);
   }
 
   /**
    * Check if period is entirely before another period
-   * High-performance comparison
+   * Bounds-aware: true when the periods share no point and this one comes first
    */
   isBefore(other: Period): boolean {
-    return this._endTime <= other._startTime;
+    return Period._separation(this, other) <= 0;
   }
 
   /**
    * Check if period is entirely after another period
-   * High-performance comparison  
+   * Bounds-aware mirror of isBefore
    */
   isAfter(other: Period): boolean {
-    return this._startTime >= other._endTime;
+    return Period._separation(other, this) <= 0;
+  }
+
+  /**
+   * Determine which of Allen's 13 interval relations holds between this period and another
+   * Ties on equal timestamps are decided by the bounds: an inclusive start comes before
+   * an exclusive one, an inclusive end comes after an exclusive one
+   */
+  relation(other: Period): AllenRelation {
+    const forward = Period._separation(this, other);
+    if (forward < 0) return 'precedes';
+    if (forward === 0) return 'meets';
+
+    const backward = Period._separation(other, this);
+    if (backward < 0) return 'precededBy';
+    if (backward === 0) return 'metBy';
+
+    return SHARED_RELATIONS[this._compareStarts(other) + 1][this._compareEnds(other) + 1];
+  }
+
+  /**
+   * Allen "precedes": this ends before the other starts, with at least one point between them
+   */
+  precedes(other: Period): boolean {
+    return this.relation(other) === 'precedes';
+  }
+
+  /**
+   * Allen "preceded by": inverse of precedes
+   */
+  precededBy(other: Period): boolean {
+    return this.relation(other) === 'precededBy';
+  }
+
+  /**
+   * Allen "meets": this ends exactly where the other starts, without a shared or missing point
+   */
+  meets(other: Period): boolean {
+    return this.relation(other) === 'meets';
+  }
+
+  /**
+   * Allen "met by": inverse of meets
+   */
+  metBy(other: Period): boolean {
+    return this.relation(other) === 'metBy';
+  }
+
+  /**
+   * Allen "overlaps": this starts first and ends inside the other
+   * Named apart from overlaps(), which is true for any shared point
+   */
+  partiallyOverlaps(other: Period): boolean {
+    return this.relation(other) === 'overlaps';
+  }
+
+  /**
+   * Allen "overlapped by": inverse of partiallyOverlaps
+   */
+  overlappedBy(other: Period): boolean {
+    return this.relation(other) === 'overlappedBy';
+  }
+
+  /**
+   * Allen "starts": both start together and this ends first
+   */
+  starts(other: Period): boolean {
+    return this.relation(other) === 'starts';
+  }
+
+  /**
+   * Allen "started by": inverse of starts
+   */
+  startedBy(other: Period): boolean {
+    return this.relation(other) === 'startedBy';
+  }
+
+  /**
+   * Allen "during": this lies strictly inside the other
+   */
+  during(other: Period): boolean {
+    return this.relation(other) === 'during';
+  }
+
+  /**
+   * Allen "contains": the other lies strictly inside this
+   * Named apart from contains(), which also accepts shared endpoints
+   */
+  encloses(other: Period): boolean {
+    return this.relation(other) === 'contains';
+  }
+
+  /**
+   * Allen "finishes": both end together and this starts later
+   */
+  finishes(other: Period): boolean {
+    return this.relation(other) === 'finishes';
+  }
+
+  /**
+   * Allen "finished by": inverse of finishes
+   */
+  finishedBy(other: Period): boolean {
+    return this.relation(other) === 'finishedBy';
+  }
+
+  /**
+   * Allen "equals": same endpoints with the same inclusivity
+   * Named apart from equals(), which is the value equality check
+   */
+  coincides(other: Period): boolean {
+    return this.relation(other) === 'equals';
+  }
+
+  /**
+   * How the end of the first period relates to the start of the second
+   * -1 = points missing in between, 0 = touching without a shared point, 1 = shared points
+   */
+  private static _separation(first: Period, second: Period): number {
+    if (first._endTime < second._startTime) return -1;
+    if (first._endTime > second._startTime) return 1;
+
+    const endInclusive = FastBounds.isEndInclusive(first._bounds);
+    const startInclusive = FastBounds.isStartInclusive(second._bounds);
+    if (endInclusive && startInclusive) return 1;
+    return endInclusive || startInclusive ? 0 : -1;
+  }
+
+  /**
+   * Order of the start points (-1, 0, 1); an inclusive start sorts before an exclusive one
+   */
+  private _compareStarts(other: Period): number {
+    if (this._startTime !== other._startTime) {
+      return this._startTime < other._startTime ? -1 : 1;
+    }
+    const thisInclusive = FastBounds.isStartInclusive(this._bounds);
+    const otherInclusive = FastBounds.isStartInclusive(other._bounds);
+    return thisInclusive === otherInclusive ? 0 : thisInclusive ? -1 : 1;
+  }
+
+  /**
+   * Order of the end points (-1, 0, 1); an inclusive end sorts after an exclusive one
+   */
+  private _compareEnds(other: Period): number {
+    if (this._endTime !== other._endTime) {
+      return this._endTime < other._endTime ? -1 : 1;
+    }
+    const thisInclusive = FastBounds.isEndInclusive(this._bounds);
+    const otherInclusive = FastBounds.isEndInclusive(other._bounds);
+    return thisInclusive === otherInclusive ? 0 : thisInclusive ? 1 : -1;
   }
 
   /**
    * Get the gap between this period and another (if any)
-   * Returns null if periods overlap or touch
+   * Returns null if periods overlap, touch with one endpoint included or either is empty.
+   * The gap includes an endpoint exactly when the neighbouring period excludes it,
+   * so [Jan 1, Jan 5) and (Jan 5, Jan 9] leave the instant [Jan 5, Jan 5]
    */
   gap(other: Period): Period | null {
-    if (this.overlaps(other) || this.touches(other)) {
+    if (this._needsDiscrete(other)) {
+      const a = this._toDiscrete();
+      const b = other._toDiscrete();
+      return a !== null && b !== null ? a.gap(b) : null;
+    }
+
+    if (this._coversNothing() || other._coversNothing()) {
       return null;
     }
-    
-    if (this.isBefore(other)) {
-      return new Period(this._endTime, other._startTime, this._bounds);
-    } else if (this.isAfter(other)) {
-      return new Period(other._endTime, this._startTime, this._bounds);
+
+    // Points are missing in between only if the periods are separate
+    if (Period._separation(this, other) < 0) {
+      return this._plain(this._endTime, other._startTime, FastBounds.gapBounds(this._bounds, other._bounds));
+    } else if (Period._separation(other, this) < 0) {
+      return this._plain(other._endTime, this._startTime, FastBounds.gapBounds(other._bounds, this._bounds));
     }
     
     return null;
   }
 
   /**
-   * Format period with bounds notation for date-only display
-   * All formats show dates only - no time components
+   * Format period with bounds notation
+   * Day-precision periods show dates only; finer precisions append the time of day.
+   * Infinite endpoints are written '..' as in ISO 8601-2: [2024-01-01, ..); the empty period is '∅'
    */
   format(dateFormat: 'iso' | 'short' | 'long' | 'smart' = 'iso'): string {
+    if (this._coversNothing()) {
+      return EMPTY_NOTATION;
+    }
     const [startBracket, endBracket] = BoundsUtils.getBrackets(this._bounds);
 
-    let startStr: string, endStr: string;
-
     // Smart formatting defaults to ISO for date-only operations
     if (dateFormat === 'smart') {
       dateFormat = 'iso';
     }
 
+    const startStr = this._formatTimestamp(this._startTime, dateFormat);
+    const endStr = this._formatTimestamp(this._endTime, dateFormat);
+
+    return `${startBracket}${startStr}, ${endStr}${endBracket}`;
+  }
+
+  /**
+   * Format a single endpoint at the period's precision
+   */
+  private _formatTimestamp(timestamp: number, dateFormat: 'iso' | 'short' | 'long'): string {
+    if (timestamp === Infinity || timestamp === -Infinity) {
+      return '..';
+    }
+    const date = new Date(timestamp);
+    const withTime = this._precision !== Precision.Day;
+    const timeZone = this.zone;
+
     switch (dateFormat) {
-      case 'iso':
-        startStr = new Date(this._startTime).toISOString().slice(0, 10); // Date only (YYYY-MM-DD)
-        endStr = new Date(this._endTime).toISOString().slice(0, 10);
-        break;
       case 'short':
         const shortOptions: Intl.DateTimeFormatOptions = { 
-          month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+          month: 'short', day: 'numeric', year: 'numeric', timeZone
         };
-        startStr = new Date(this._startTime).toLocaleDateString('en-US', shortOptions);
-        endStr = new Date(this._endTime).toLocaleDateString('en-US', shortOptions);
-        break;
+        return withTime
+          ? date.toLocaleString('en-US', { ...shortOptions, ...this._timeFormatOptions() })
+          : date.toLocaleDateString('en-US', shortOptions);
       case 'long':
         const longOptions: Intl.DateTimeFormatOptions = { 
-          weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC'
+          weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone
         };
-        startStr = new Date(this._startTime).toLocaleDateString('en-US', longOptions);
-        endStr = new Date(this._endTime).toLocaleDateString('en-US', longOptions);
-        break;
+        return withTime
+          ? date.toLocaleString('en-US', { ...longOptions, ...this._timeFormatOptions() })
+          : date.toLocaleDateString('en-US', longOptions);
       default:
-        // Fallback to ISO for any unrecognized format
-        startStr = new Date(this._startTime).toISOString().slice(0, 10);
-        endStr = new Date(this._endTime).toISOString().slice(0, 10);
-        break;
+        // ISO (and fallback): YYYY-MM-DD, extended with THH:mm[:ss[.sss]] for sub-day precision
+        const iso = this._zone !== undefined ? TimeZone.toLocalISOString(timestamp, this._zone) : date.toISOString();
+        return iso.slice(0, ISO_FORMAT_LENGTHS[this._precision]);
     }
+  }
 
-    return `${startBracket}${startStr}, ${endStr}${endBracket}`;
+  /**
+   * Time-of-day fields shown for sub-day precisions
+   */
+  private _timeFormatOptions(): Intl.DateTimeFormatOptions {
+    return this._precision <= Precision.Second
+      ? { hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }
+      : { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' };
   }
 
   /**
@@ -403,6 +880,74 @@ export class Period {
     return this.format('iso');
   }
 
+  /**
+   * Wire format for JSON.stringify (schema version 1)
+   * Endpoints are UTC ISO timestamps ('..' when infinite), bounds keep their notation ('[)')
+   */
+  toJSON(): PeriodJSON {
+    const json: PeriodJSON = {
+      type: 'Period',
+      version: JSON_SCHEMA_VERSION,
+      start: this._startTime === -Infinity ? '..' : new Date(this._startTime).toISOString(),
+      end: this._endTime === Infinity ? '..' : new Date(this._endTime).toISOString(),
+      bounds: BoundsUtils.toNotation(this._bounds),
+      precision: PrecisionUtils.toName(this._precision)
+    };
+    return this._zone !== undefined ? { ...json, zone: this._zone } : json;
+  }
+
+  /**
+   * Rebuild a period from its wire format (object or JSON text)
+   * TaggedPeriod JSON gives a TaggedPeriod with the payload
+   */
+  static fromJSON(input: PeriodJSON | string): Period {
+    const json = JSONUtils.read(input, ['Period', 'TaggedPeriod']);
+    const start = json.start === '..' ? -Infinity : JSONUtils.timestamp(json.start, json.type);
+    const end = json.end === '..' ? Infinity : JSONUtils.timestamp(json.end, json.type);
+    const bounds = BoundsUtils.fromNotation(json.bounds);
+    const options = { precision: PrecisionUtils.fromName(json.precision), zone: json.zone };
+
+    if (json.type === 'TaggedPeriod') {
+      return new TaggedPeriod(start, end, (json as TaggedPeriodJSON<unknown>).payload, bounds, options);
+    }
+    return new Period(start, end, bounds, options);
+  }
+
+  /**
+   * Format as ISO 8601 time interval 'start/end', read back by Period.parse
+   * Written in the [start, end) form covering the same units: [Jan 1, Jan 5] is '2024-01-01/2024-01-06'.
+   * Day precision writes calendar dates, finer precisions date-times with 'Z' or the zone's offset;
+   * infinite endpoints are '..' (ISO 8601-2), as in '2024-01-01/..'
+   */
+  toISOInterval(): string {
+    const period = this._toDiscrete();
+    if (!period) {
+      throw new Error('Period covers no whole unit');
+    }
+    return `${this._formatISOInstant(period._startTime)}/${this._formatISOInstant(period._endTime)}`;
+  }
+
+  /**
+   * Format an endpoint for ISO 8601 intervals at the period's precision
+   */
+  private _formatISOInstant(timestamp: number): string {
+    if (timestamp === Infinity || timestamp === -Infinity) {
+      return '..';
+    }
+    if (this._precision === Precision.Day) {
+      return new Date(this._zone !== undefined ? TimeZone.calendarDate(timestamp, this._zone) : timestamp).toISOString().slice(0, 10);
+    }
+
+    const length = ISO_FORMAT_LENGTHS[this._precision];
+    if (this._zone === undefined) {
+      return new Date(timestamp).toISOString().slice(0, length) + 'Z';
+    }
+    const offset = Math.round(TimeZone.offset(timestamp, this._zone) / 60000);
+    const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+    return `${TimeZone.toLocalISOString(timestamp, this._zone).slice(0, length)}${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+  }
+
   /**
    * Format as date only (same as toString for date-only periods)
    * Example: [2024-01-15, 2024-01-16)
@@ -413,27 +958,53 @@ export class Period {
 
   /**
    * Calculate intersection with another period
-   * Returns the overlapping period, or null if no overlap
+   * Returns the overlapping period, or the empty period if there is no overlap; touching inclusive
+   * endpoints give the single instant [a, a]. Each endpoint keeps the inclusivity of the period
+   * it comes from; shared endpoints are included only if both include them.
+   * Under discrete semantics both periods are canonicalized first and the result is [start, end)
    */
-  intersection(other: Period): Period | null {
+  intersection(other: Period): Period {
+    if (this._needsDiscrete(other)) {
+      const a = this._toDiscrete();
+      const b = other._toDiscrete();
+      return a !== null && b !== null ? a.intersection(b) : this._empty(other);
+    }
+
     if (!this.overlaps(other)) {
-      return null;
+      return this._empty(other);
     }
     
     const startTime = Math.max(this._startTime, other._startTime);
     const endTime = Math.min(this._endTime, other._endTime);
     
-    // Use the more restrictive bounds
-    const bounds = this._bounds;
-    return new Period(startTime, endTime, bounds);
+    const bounds = FastBounds.intersectBounds(
+      this._bounds, other._bounds,
+      compareTimes(this._startTime, other._startTime),
+      compareTimes(this._endTime, other._endTime)
+    );
+    return this._derive(startTime, endTime, bounds);
   }
 
   /**
    * Merge with another period if they touch or overlap (date-only optimized)
    * For date-only operations, consecutive days can be merged based on bounds
-   * Returns combined period, or null if they can't be merged
+   * Returns combined period, or null if they can't be merged. The empty period merges with anything.
+   * Under discrete semantics periods covering adjacent units merge, e.g. [Jan 1, Jan 4] and [Jan 5, Jan 9)
    */
   union(other: Period): Period | null {
+    if (this._needsDiscrete(other)) {
+      const a = this._toDiscrete();
+      const b = other._toDiscrete();
+      return a !== null && b !== null ? a.union(b) : a ?? b ?? this;
+    }
+
+    if (other._coversNothing()) {
+      return this;
+    }
+    if (this._coversNothing()) {
+      return other;
+    }
+
     // Check if they overlap or are consecutive days that should merge
     if (!this.overlaps(other) && !this.canMergeConsecutiveDays(other)) {
       return null;
@@ -442,8 +1013,166 @@ export class Period {
     const startTime = Math.min(this._startTime, other._startTime);
     const endTime = Math.max(this._endTime, other._endTime);
     
-    // Use this period's bounds
-    return new Period(startTime, endTime, this._bounds);
+    // Each endpoint keeps the inclusivity of the period it comes from
+    const bounds = FastBounds.unionBounds(
+      this._bounds, other._bounds,
+      compareTimes(this._startTime, other._startTime),
+      compareTimes(this._endTime, other._endTime)
+    );
+    return this._derive(startTime, endTime, bounds);
+  }
+
+  /**
+   * Empty result of an operation on this and another period, placed at the later start
+   */
+  private _empty(other: Period): Period {
+    const time = Math.max(this._startTime, other._startTime);
+    return this._derive(time, time, Bounds.IncludeStartExcludeEnd);
+  }
+
+  /**
+   * Set difference - the parts of this period not covered by another
+   * Returns 0, 1 or 2 periods; cut points complement the other period's bounds
+   */
+  subtract(other: Period): Sequence {
+    return new Sequence(this).subtract(new Sequence(other));
+  }
+
+  /**
+   * Number of business days of the calendar this period touches
+   */
+  businessDays(calendar: import('../calendar/BusinessCalendar').BusinessCalendar): number {
+    return calendar.businessDays(this);
+  }
+
+  /**
+   * Business days of the calendar this period touches, one whole-day period each
+   */
+  workingDays(calendar: import('../calendar/BusinessCalendar').BusinessCalendar): Sequence {
+    return calendar.workingDays(this);
+  }
+
+  /**
+   * Calendar days of the period in its zone, lazily, clipped to the period
+   * The first and last piece keep the period's bounds, cut points are [start, end)
+   */
+  days(): IterableIterator<Period> {
+    const zone = this.zone;
+    return this._pieces(time => TimeZone.midnightOf(TimeZone.calendarDate(time, zone) + DAY_MS, zone));
+  }
+
+  /**
+   * Calendar weeks of the period, lazily, clipped to the period
+   * Weeks start on weekStart (defaults to Monday, as in ISO 8601)
+   */
+  weeks(options: { weekStart?: Weekday } = {}): IterableIterator<Period> {
+    const zone = this.zone;
+    const weekStart = options.weekStart ?? Weekday.Monday;
+    return this._pieces(time => {
+      const date = TimeZone.calendarDate(time, zone);
+      const days = (weekStart - new Date(date).getUTCDay() + 7) % 7 || 7;
+      return TimeZone.midnightOf(date + days * DAY_MS, zone);
+    });
+  }
+
+  /**
+   * Calendar months of the period, lazily, clipped to the period
+   */
+  months(): IterableIterator<Period> {
+    return this._calendarPieces(1);
+  }
+
+  /**
+   * Calendar quarters of the period, lazily, clipped to the period
+   */
+  quarters(): IterableIterator<Period> {
+    return this._calendarPieces(3);
+  }
+
+  /**
+   * Consecutive pieces of the given length from the start; the last one may be shorter
+   * Calendar durations are added the way a calendar does: P1M from Jan 31 cuts on Feb 29, Mar 31, ...
+   */
+  split(duration: import('../duration/DurationInterval').DurationInterval): Sequence {
+    if (duration.milliseconds <= 0) {
+      throw new Error(`Split duration must be positive: ${duration.toString()}`);
+    }
+    // Shorter pieces would collapse when truncated to the precision
+    if (duration.milliseconds < PrecisionUtils.unitMs(this._precision)) {
+      throw new Error(`Split duration ${duration.toString()} is shorter than the period precision`);
+    }
+    this._requireBounded('split');
+    let count = 0;
+    return new Sequence([...this._pieces(() => duration.multiply(++count).addTo(this._startTime, this.zone))], true);
+  }
+
+  /**
+   * Split into count pieces of (nearly) equal length in whole precision units
+   * Longer pieces come last; periods shorter than count units give one piece per unit
+   */
+  chunk(count: number): Sequence {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Chunk count must be a positive integer: ${count}`);
+    }
+    this._requireBounded('chunk');
+    const units = this._zone !== undefined && this._precision === Precision.Day
+      ? Math.round((TimeZone.calendarDate(this._endTime, this._zone) - TimeZone.calendarDate(this._startTime, this._zone)) / DAY_MS)
+      : Math.round((this._endTime - this._startTime) / PrecisionUtils.unitMs(this._precision));
+    const pieces = Math.min(count, Math.max(units, 1));
+    let index = 0;
+    return new Sequence([...this._pieces(() => this._step(this._startTime, Math.floor(++index * units / pieces)))], true);
+  }
+
+  /**
+   * Pieces of the period between cut points; next gives the first cut point after a piece's start
+   * The first piece keeps the start's inclusivity and the last the end's, so pieces never overlap
+   * @internal
+   */
+  _pieces(next: (start: number) => number): IterableIterator<Period> {
+    if (this._startTime === -Infinity) {
+      throw new Error(`Cannot iterate a period without start: ${this.toString()}`);
+    }
+    return this._cut(next);
+  }
+
+  /**
+   * Lazy part of _pieces - periods without end are cut forever
+   */
+  private *_cut(next: (start: number) => number): IterableIterator<Period> {
+    if (this.isEmpty()) {
+      return;
+    }
+
+    const bits = BOUNDS_BITS[this._bounds];
+    let start = this._startTime;
+    let startBits = bits & BOUNDS_MASKS.START_INCLUSIVE;
+    for (let cut = next(start); cut < this._endTime; cut = next(start)) {
+      yield this._derive(start, cut, FastBounds.fromBits(startBits));
+      start = cut;
+      startBits = BOUNDS_MASKS.START_INCLUSIVE;
+    }
+    yield this._derive(start, this._endTime, FastBounds.fromBits(startBits | (bits & BOUNDS_MASKS.END_INCLUSIVE)));
+  }
+
+  /**
+   * Pieces cut on the first day of every months-th month of the year (months or quarters)
+   */
+  private _calendarPieces(months: number): IterableIterator<Period> {
+    const zone = this.zone;
+    return this._pieces(time => {
+      const date = new Date(TimeZone.calendarDate(time, zone));
+      const month = Math.floor(date.getUTCMonth() / months) * months + months;
+      return TimeZone.midnightOf(Date.UTC(date.getUTCFullYear(), month, 1), zone);
+    });
+  }
+
+  /**
+   * Reject periods without start or end, which split into infinitely many pieces
+   */
+  private _requireBounded(operation: string): void {
+    if (!this.isBounded()) {
+      throw new Error(`Cannot ${operation} an unbounded period: ${this.toString()}`);
+    }
   }
 
   /**
@@ -476,11 +1205,43 @@ export class Period {
    * Example: "Jan 15, 2024", "Jan 15 - 20, 2024" or "Jan 15, 2024 - Feb 2, 2024"
    */
   toDisplayString(): string {
-    const startDate = new Date(this._startTime);
-    const endDate = new Date(this._endTime);
+    const zone = this.zone;
+
+    if (this._coversNothing()) {
+      return 'Empty';
+    }
+    if (this.isInstant()) {
+      // Single instant: "Jan 15, 2024" or "Jan 15, 2024, 09:30"
+      return this._formatTimestamp(this._startTime, 'short');
+    }
+
+    if (!this.isBounded()) {
+      // Open-ended periods: "Since Jan 15, 2024", "Until Jan 15, 2024" or "All time"
+      if (this._startTime !== -Infinity) return `Since ${this._formatTimestamp(this._startTime, 'short')}`;
+      if (this._endTime !== Infinity) return `Until ${this._formatTimestamp(this._endTime, 'short')}`;
+      return 'All time';
+    }
+
+    if (this._precision !== Precision.Day) {
+      // Sub-day periods: "Jan 15, 2024, 09:00 - 17:30" or "Jan 15, 2024, 22:00 - Jan 16, 2024, 06:00"
+      const timeOptions: Intl.DateTimeFormatOptions = { ...this._timeFormatOptions(), timeZone: zone };
+      const dateTimeOptions: Intl.DateTimeFormatOptions = {
+        month: 'short', day: 'numeric', year: 'numeric', ...timeOptions
+      };
+      const startStr = new Date(this._startTime).toLocaleString('en-US', dateTimeOptions);
+      const sameDay = TimeZone.calendarDate(this._startTime, zone) === TimeZone.calendarDate(this._endTime, zone);
+      const endStr = sameDay
+        ? new Date(this._endTime).toLocaleTimeString('en-US', timeOptions)
+        : new Date(this._endTime).toLocaleString('en-US', dateTimeOptions);
+      return `${startStr} - ${endStr}`;
+    }
+
+    // Work on the calendar dates in the period's zone, rendered as UTC dates below
+    const startDate = new Date(TimeZone.calendarDate(this._startTime, zone));
+    const endDate = new Date(TimeZone.calendarDate(this._endTime, zone));
     
     // For date-only periods, check if start and end are consecutive days (1-day period)
-    const daysDiff = Math.floor((this._endTime - this._startTime) / 86400000);
+    const daysDiff = this.durationInDays;
     
     if (daysDiff === 1) {
       // Single day period: "Jan 15, 2024"
@@ -516,3 +1277,109 @@ export class Period {
     }
   }
 }
+
+/**
+ * Payload type of a period type (undefined for plain periods)
+ */
+export type PayloadOf<P> = P extends TaggedPeriod<infer T> ? T : undefined;
+
+/**
+ * Decides the payload of a period built from two periods (merge, intersect)
+ */
+export type PayloadCombiner<A, B = A> = (a: A, b: B) => A;
+
+/**
+ * Wire format of a TaggedPeriod: the period plus its payload, which must be JSON-serializable
+ */
+export interface TaggedPeriodJSON<T> extends PeriodJSON {
+  readonly type: 'TaggedPeriod';
+  readonly payload: T;
+}
+
+/**
+ * Period carrying a payload (booking ID, rate, owner, ...)
+ * Every derived period - moved, clipped, split, merged or intersected - keeps the payload,
+ * so Sequence operations never lose track of what a period belongs to.
+ * Lives next to Period so Sequence can build tagged periods without a circular import
+ */
+export class TaggedPeriod<T> extends Period {
+  private readonly _payload: T;
+
+  constructor(start: Date | number | string, end: Date | number | string, payload: T,
+              bounds: Bounds = Bounds.IncludeStartExcludeEnd, options?: PeriodOptions) {
+    super(start, end, bounds, options);
+    this._payload = payload;
+  }
+
+  /**
+   * Attach a payload to an existing period (keeps bounds, precision and zone)
+   */
+  static from<T>(period: Period, payload: T): TaggedPeriod<T> {
+    return new TaggedPeriod(period.startTime, period.endTime, payload, period.bounds,
+                            { precision: period.precision, zone: period.zone });
+  }
+
+  /**
+   * Get the payload
+   */
+  get payload(): T {
+    return this._payload;
+  }
+
+  /**
+   * Create the same period with another payload
+   */
+  withPayload<U>(payload: U): TaggedPeriod<U> {
+    return TaggedPeriod.from(this, payload);
+  }
+
+  /**
+   * Create the same period with a transformed payload
+   */
+  mapPayload<U>(mapper: (payload: T) => U): TaggedPeriod<U> {
+    return TaggedPeriod.from(this, mapper(this._payload));
+  }
+
+  /**
+   * Strip the payload
+   */
+  toPeriod(): Period {
+    return this._plain(this.startTime, this.endTime);
+  }
+
+  /**
+   * Wire format with the payload
+   */
+  toJSON(): TaggedPeriodJSON<T> {
+    return { ...super.toJSON(), type: 'TaggedPeriod', payload: this._payload };
+  }
+
+  /**
+   * Rebuild a tagged period from its wire format (object or JSON text)
+   */
+  static fromJSON<T = unknown>(input: TaggedPeriodJSON<T> | string): TaggedPeriod<T> {
+    JSONUtils.read(input, ['TaggedPeriod']);
+    return Period.fromJSON(input) as TaggedPeriod<T>;
+  }
+
+  /**
+   * Derived periods keep this period's payload
+   * @internal
+   */
+  _derive(start: Date | number | string, end: Date | number | string, bounds: Bounds = this.bounds,
+          options: PeriodOptions = { precision: this.precision, zone: this.zone }): TaggedPeriod<T> {
+    return new TaggedPeriod(start, end, this._payload, bounds, options);
+  }
+
+  /**
+   * Apply a payload combiner when the other period is tagged too
+   * @internal
+   */
+  _combine<A, B>(other: Period, result: Period, combine?: PayloadCombiner<A, B>): Period {
+    if (!combine || !(other instanceof TaggedPeriod) || !(result instanceof TaggedPeriod)) {
+      return result;
+    }
+    // Both periods are tagged, so their payloads are the ones the combiner was typed for
+    return result.withPayload(combine(this._payload as unknown as A, other.payload as B));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Library-wide settings for Period and Sequence
+ * Kept as static state so hot paths only pay for a single boolean check
+ */
+
+import { Semantics } from './types';
+
+export class PeriodSettings {
+  private static _semantics: Semantics = Semantics.Continuous;
+  // Pre-calculated flag read on hot paths
+  private static _discrete: boolean = false;
+
+  /**
+   * Current set semantics (Semantics.Continuous unless changed)
+   */
+  static get semantics(): Semantics {
+    return PeriodSettings._semantics;
+  }
+
+  /**
+   * Switch set semantics for the whole library
+   * In Semantics.Discrete, equality, keys, day counts and set operations compare
+   * the units periods cover instead of their written bounds
+   */
+  static set semantics(semantics: Semantics) {
+    PeriodSettings._semantics = semantics;
+    PeriodSettings._discrete = semantics === Semantics.Discrete;
+  }
+
+  /**
+   * Fast check for discrete semantics
+   */
+  static get discrete(): boolean {
+    return PeriodSettings._discrete;
+  }
+
+  /**
+   * Run a function under the given semantics, restoring the previous setting afterwards
+   */
+  static withSemantics<T>(semantics: Semantics, fn: () => T): T {
+    const previous = PeriodSettings._semantics;
+    PeriodSettings.semantics = semantics;
+    try {
+      return fn();
+    } finally {
+      PeriodSettings.semantics = previous;
+    }
+  }
+
+  /**
+   * Restore the default settings
+   */
+  static reset(): void {
+    PeriodSettings.semantics = Semantics.Continuous;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * IANA time zone helpers built on Intl.DateTimeFormat
+ * Converts between UTC timestamps and wall-clock time in a named zone (DST-aware)
+ */
+
+import { Precision, PrecisionUtils } from './types';
+
+/**
+ * Wall-clock components of an instant in a time zone
+ * Month is zero-based to mirror Date.UTC / getUTCMonth
+ */
+export interface ZonedParts {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+  readonly millisecond: number;
+  /** Day of week, Sunday = 0 (same as getUTCDay) */
+  readonly weekday: number;
+}
+
+// Local date-time strings without offset, interpreted as wall-clock time in a zone
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export class TimeZone {
+  // One formatter per zone - constructing Intl.DateTimeFormat is expensive
+  private static readonly _formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Check whether a zone name is a valid IANA time zone
+   */
+  static isValid(zone: string): boolean {
+    try {
+      TimeZone._formatter(zone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a zone name refers to UTC (allows the UTC fast paths)
+   */
+  static isUTC(zone: string | undefined): boolean {
+    return zone === undefined || zone === 'UTC' || zone === 'Etc/UTC' || zone === 'Z';
+  }
+
+  /**
+   * Get wall-clock components of a timestamp in the zone
+   */
+  static toParts(timestamp: number, zone: string): ZonedParts {
+    const values: Record<string, string> = {};
+    for (const part of TimeZone._formatter(zone).formatToParts(timestamp)) {
+      values[part.type] = part.value;
+    }
+
+    return {
+      year: parseInt(values.year, 10),
+      month: parseInt(values.month, 10) - 1,
+      day: parseInt(values.day, 10),
+      hour: parseInt(values.hour, 10),
+      minute: parseInt(values.minute, 10),
+      second: parseInt(values.second, 10),
+      millisecond: ((timestamp % 1000) + 1000) % 1000,
+      weekday: WEEKDAYS[values.weekday]
+    };
+  }
+
+  /**
+   * Offset of the zone from UTC at the given instant, in milliseconds
+   */
+  static offset(timestamp: number, zone: string): number {
+    const p = TimeZone.toParts(timestamp, zone);
+    const local = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second, p.millisecond);
+    return local - timestamp;
+  }
+
+  /**
+   * Convert wall-clock time in the zone to a UTC timestamp
+   * Arguments mirror Date.UTC (zero-based month, overflow allowed).
+   * Ambiguous times (DST fall-back) resolve to the earlier instant,
+   * non-existent times (DST spring-forward) are shifted forward by the gap.
+   */
+  static fromWallTime(zone: string, year: number, month: number, day: number,
+                      hour: number = 0, minute: number = 0, second: number = 0, millisecond: number = 0): number {
+    const local = Date.UTC(year, month, day, hour, minute, second, millisecond);
+    if (TimeZone.isUTC(zone)) {
+      return local;
+    }
+
+    // Assume at most one transition within a day either side of the wall time
+    const offsetBefore = TimeZone.offset(local - 86400000, zone);
+    const offsetAfter = TimeZone.offset(local + 86400000, zone);
+    const earlier = local - offsetBefore;
+    const later = local - offsetAfter;
+
+    const earlierValid = TimeZone.offset(earlier, zone) === offsetBefore;
+    const laterValid = TimeZone.offset(later, zone) === offsetAfter;
+
+    if (earlierValid && laterValid) {
+      return Math.min(earlier, later);
+    }
+    if (earlierValid) return earlier;
+    if (laterValid) return later;
+
+    // Wall time falls into a gap - keep the pre-transition offset (shifts forward)
+    return earlier;
+  }
+
+  /**
+   * Midnight in the zone of the calendar day containing the timestamp
+   */
+  static startOfDay(timestamp: number, zone: string): number {
+    const p = TimeZone.toParts(timestamp, zone);
+    return TimeZone.fromWallTime(zone, p.year, p.month, p.day);
+  }
+
+  /**
+   * Midnight in the zone of a calendar date given as a midnight UTC timestamp
+   * Lets calendar arithmetic run in UTC and be mapped onto the zone afterwards
+   */
+  static midnightOf(calendarDate: number, zone: string): number {
+    if (TimeZone.isUTC(zone)) {
+      return calendarDate;
+    }
+    const date = new Date(calendarDate);
+    return TimeZone.fromWallTime(zone, date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+
+  /**
+   * Calendar date of the timestamp in the zone, as a midnight UTC timestamp
+   * Inverse of midnightOf
+   */
+  static calendarDate(timestamp: number, zone: string): number {
+    if (TimeZone.isUTC(zone)) {
+      return Math.floor(timestamp / 86400000) * 86400000;
+    }
+    const p = TimeZone.toParts(timestamp, zone);
+    return Date.UTC(p.year, p.month, p.day);
+  }
+
+  /**
+   * Add calendar days in the zone (days may be 23 or 25 hours long across DST)
+   */
+  static addDays(timestamp: number, days: number, zone: string): number {
+    if (TimeZone.isUTC(zone)) {
+      return timestamp + days * 86400000;
+    }
+    const p = TimeZone.toParts(timestamp, zone);
+    return TimeZone.fromWallTime(zone, p.year, p.month, p.day + days, p.hour, p.minute, p.second, p.millisecond);
+  }
+
+  /**
+   * Truncate a timestamp to the precision using the zone's wall clock
+   */
+  static truncate(timestamp: number, precision: Precision, zone: string): number {
+    if (TimeZone.isUTC(zone)) {
+      return PrecisionUtils.truncate(timestamp, precision);
+    }
+    if (precision === Precision.Day) {
+      return TimeZone.startOfDay(timestamp, zone);
+    }
+
+    // Sub-day units: truncate local time and keep the instant's own offset
+    const offset = TimeZone.offset(timestamp, zone);
+    return PrecisionUtils.truncate(timestamp + offset, precision) - offset;
+  }
+
+  /**
+   * Parse a date string for the zone
+   * Strings without an offset (e.g. '2024-03-31' or '2024-03-31T09:00') are wall-clock time in the zone;
+   * anything else is handed to the Date parser
+   */
+  static parse(input: string, zone: string): number {
+    const match = TimeZone.isUTC(zone) ? null : LOCAL_DATE_TIME.exec(input);
+    if (!match) {
+      return new Date(input).getTime();
+    }
+
+    const [, year, month, day, hour, minute, second, millis] = match;
+    return TimeZone.fromWallTime(
+      zone,
+      parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10),
+      hour ? parseInt(hour, 10) : 0,
+      minute ? parseInt(minute, 10) : 0,
+      second ? parseInt(second, 10) : 0,
+      millis ? parseInt(millis.padEnd(3, '0'), 10) : 0
+    );
+  }
+
+  /**
+   * Format as local ISO date-time without offset (YYYY-MM-DDTHH:mm:ss.sss)
+   */
+  static toLocalISOString(timestamp: number, zone: string): string {
+    if (TimeZone.isUTC(zone)) {
+      return new Date(timestamp).toISOString().slice(0, 23);
+    }
+    const p = TimeZone.toParts(timestamp, zone);
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(p.year, 4)}-${pad(p.month + 1)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}.${pad(p.millisecond, 3)}`;
+  }
+
+  /**
+   * Get (or create) the cached formatter for a zone
+   */
+  private static _formatter(zone: string): Intl.DateTimeFormat {
+    let formatter = TimeZone._formatters.get(zone);
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: zone,
+          hourCycle: 'h23',
+          year: 'numeric', month: '2-digit', day: '2-digit',
+          hour: '2-digit', minute: '2-digit', second: '2-digit',
+          weekday: 'short'
+        });
+      } catch {
+        throw new Error(`Invalid time zone: ${zone}`);
+      }
+      TimeZone._formatters.set(zone, formatter);
+    }
+    return formatter;
+  }
+}
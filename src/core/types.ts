@@ -17,6 +17,26 @@ export enum Bounds {
   ExcludeAll = 3
 }
 
+/**
+ * Allen's 13 interval relations, read as "this <relation> other"
+ * Endpoint inclusivity (Bounds) decides ties: touching periods meet only when
+ * exactly one side includes the shared endpoint
+ */
+export type AllenRelation =
+  | 'precedes'
+  | 'meets'
+  | 'overlaps'
+  | 'finishedBy'
+  | 'contains'
+  | 'starts'
+  | 'equals'
+  | 'startedBy'
+  | 'during'
+  | 'finishes'
+  | 'overlappedBy'
+  | 'metBy'
+  | 'precededBy';
+
 /**
  * Duration representation for time periods
  */
@@ -28,6 +48,21 @@ export interface Duration {
   readonly days: number;
 }
 
+/**
+ * Calendar components of a duration (all non-negative)
+ * Years, months, weeks and days follow the calendar; hours and below are exact elapsed time
+ */
+export interface DurationComponents {
+  readonly years?: number;
+  readonly months?: number;
+  readonly weeks?: number;
+  readonly days?: number;
+  readonly hours?: number;
+  readonly minutes?: number;
+  readonly seconds?: number;
+  readonly milliseconds?: number;
+}
+
 /**
  * Internal utility functions for performance optimizations
  */
@@ -56,4 +91,234 @@ export class BoundsUtils {
     const endBracket = BoundsUtils.includesEnd(bounds) ? ']' : ')';
     return [startBracket, endBracket];
   }
+
+  /**
+   * Bounds as bracket notation, e.g. '[)' for IncludeStartExcludeEnd
+   */
+  static toNotation(bounds: Bounds): BoundsNotation {
+    return BoundsUtils.getBrackets(bounds).join('') as BoundsNotation;
+  }
+
+  /**
+   * Parse bracket notation ('[)', '(]', '[]' or '()')
+   */
+  static fromNotation(notation: string): Bounds {
+    const bounds = BOUNDS_NOTATIONS.indexOf(notation);
+    if (bounds === -1) {
+      throw new Error(`Invalid bounds notation: ${notation}`);
+    }
+    return bounds;
+  }
+}
+
+/**
+ * Bracket notation of Bounds
+ */
+export type BoundsNotation = '[)' | '(]' | '[]' | '()';
+
+// Notation indexed by Bounds
+const BOUNDS_NOTATIONS: readonly string[] = ['[)', '(]', '[]', '()'];
+
+/**
+ * Precision of period endpoints, ordered from finest to coarsest
+ * Using numeric enum for performance (faster than string unions)
+ */
+export enum Precision {
+  /** Endpoints kept to the millisecond */
+  Millisecond = 0,
+  /** Endpoints truncated to whole seconds */
+  Second = 1,
+  /** Endpoints truncated to whole minutes */
+  Minute = 2,
+  /** Endpoints truncated to whole hours */
+  Hour = 3,
+  /** Endpoints truncated to midnight UTC (default) */
+  Day = 4
+}
+
+/**
+ * How set semantics treat period endpoints
+ * Using numeric enum for performance (faster than string unions)
+ */
+export enum Semantics {
+  /** Periods are ranges on a continuous time line - bounds matter as written (default) */
+  Continuous = 0,
+  /** Periods are sets of whole precision units (days by default) - (a, b] and [a+1, b+1) are the same */
+  Discrete = 1
+}
+
+/**
+ * Days of the week, numbered like Date.getUTCDay (Sunday = 0)
+ * Using numeric enum for performance (faster than string unions)
+ */
+export enum Weekday {
+  Sunday = 0,
+  Monday = 1,
+  Tuesday = 2,
+  Wednesday = 3,
+  Thursday = 4,
+  Friday = 5,
+  Saturday = 6
+}
+
+/**
+ * Repetition unit of a recurrence rule (RFC 5545 FREQ)
+ * Using numeric enum for performance (faster than string unions)
+ */
+export enum Frequency {
+  Daily = 0,
+  Weekly = 1,
+  Monthly = 2,
+  Yearly = 3
+}
+
+/**
+ * How a holiday that falls on a weekend is moved to a working day
+ * Using numeric enum for performance (faster than string unions)
+ */
+export enum Observance {
+  /** Observed on the date itself */
+  Actual = 0,
+  /** Saturday and Sunday move to the next weekday no other holiday is observed on (UK substitute days) */
+  FollowingMonday = 1,
+  /** Saturday moves to Friday, Sunday to Monday (US federal holidays) */
+  NearestWeekday = 2
+}
+
+/**
+ * Optional construction settings for Period
+ */
+export interface PeriodOptions {
+  /** Endpoint precision (defaults to Precision.Day) */
+  readonly precision?: Precision;
+  /** IANA time zone name such as 'Europe/Berlin' (defaults to UTC) */
+  readonly zone?: string;
+}
+
+// Pre-calculated unit length in milliseconds for each precision
+const PRECISION_MS: readonly number[] = [1, 1000, 60000, 3600000, 86400000];
+
+// Lower-case names indexed by Precision (JSON wire format)
+const PRECISION_NAMES: readonly PrecisionName[] = ['millisecond', 'second', 'minute', 'hour', 'day'];
+
+/**
+ * Name of a Precision in the JSON wire format
+ */
+export type PrecisionName = 'millisecond' | 'second' | 'minute' | 'hour' | 'day';
+
+/**
+ * Utility functions for precision handling
+ */
+export class PrecisionUtils {
+  /**
+   * Length of one precision unit in milliseconds
+   */
+  static unitMs(precision: Precision): number {
+    return PRECISION_MS[precision];
+  }
+
+  /**
+   * Truncate a UTC timestamp to the given precision
+   */
+  static truncate(timestamp: number, precision: Precision): number {
+    if (precision === Precision.Millisecond) {
+      return timestamp;
+    }
+    const unit = PRECISION_MS[precision];
+    return Math.floor(timestamp / unit) * unit;
+  }
+
+  /**
+   * Lower-case name of a precision, e.g. 'day'
+   */
+  static toName(precision: Precision): PrecisionName {
+    return PRECISION_NAMES[precision];
+  }
+
+  /**
+   * Parse a precision name
+   */
+  static fromName(name: string): Precision {
+    const precision = PRECISION_NAMES.indexOf(name as PrecisionName);
+    if (precision === -1) {
+      throw new Error(`Invalid precision: ${name}`);
+    }
+    return precision;
+  }
+
+  /**
+   * Find the coarsest precision that represents a timestamp or duration exactly
+   */
+  static detect(milliseconds: number): Precision {
+    for (let precision = Precision.Day; precision > Precision.Millisecond; precision--) {
+      if (milliseconds % PRECISION_MS[precision] === 0) {
+        return precision;
+      }
+    }
+    return Precision.Millisecond;
+  }
+}
+
+/**
+ * Version of the JSON wire schema written by toJSON()
+ * fromJSON() reads this version and older ones
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Wire format of a Period (schema version 1)
+ * Example: { "type": "Period", "version": 1, "start": "2024-01-01T00:00:00.000Z",
+ *            "end": "2024-02-01T00:00:00.000Z", "bounds": "[)", "precision": "day" }
+ */
+export interface PeriodJSON {
+  readonly type: 'Period' | 'TaggedPeriod';
+  readonly version: number;
+  /** UTC ISO 8601 timestamps, '..' for an infinite endpoint */
+  readonly start: string;
+  readonly end: string;
+  readonly bounds: BoundsNotation;
+  readonly precision: PrecisionName;
+  /** IANA zone, left out for UTC */
+  readonly zone?: string;
+}
+
+/**
+ * Wire format of a DurationInterval (schema version 1)
+ * Example: { "type": "DurationInterval", "version": 1, "iso": "P1M2D" }
+ */
+export interface DurationIntervalJSON {
+  readonly type: 'DurationInterval';
+  readonly version: number;
+  /** ISO 8601 duration keeping the calendar components */
+  readonly iso: string;
+}
+
+/**
+ * Shared checks for fromJSON()
+ */
+export class JSONUtils {
+  /**
+   * Parse (if needed) and check type and schema version of a wire object
+   */
+  static read<T extends { readonly type: string; readonly version: number }>(input: T | string, types: readonly string[]): T {
+    const json = typeof input === 'string' ? JSON.parse(input) : input;
+    if (json === null || typeof json !== 'object' || !types.includes(json.type)) {
+      throw new Error(`Expected ${types.join(' or ')} JSON`);
+    }
+    if (!Number.isInteger(json.version) || json.version < 1 || json.version > JSON_SCHEMA_VERSION) {
+      throw new Error(`Unsupported ${json.type} JSON version: ${json.version}`);
+    }
+    return json;
+  }
+
+  /**
+   * Parse a wire timestamp (ISO 8601 string)
+   */
+  static timestamp(value: unknown, type: string): number {
+    const timestamp = typeof value === 'string' ? Date.parse(value) : NaN;
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid ${type} JSON timestamp: ${value}`);
+    }
+    return timestamp;
+  }
 }
@@ -1,26 +1,104 @@
 /**
  * Duration class for creating time intervals (similar to PHP DateInterval)
- * Optimized for performance with pre-calculated milliseconds
+ * Keeps calendar components (years, months, weeks, days) apart from exact time,
+ * with pre-calculated nominal milliseconds for fast comparisons
  */
 
-import { Duration } from '../core/types';
+import { Duration, DurationComponents, DurationIntervalJSON, JSONUtils, JSON_SCHEMA_VERSION } from '../core/types';
+import { TimeZone } from '../core/TimeZone';
+
+// Nominal lengths of the calendar units in milliseconds
+const YEAR_MS = 31536000000;  // 365 * 24 * 60 * 60 * 1000
+const MONTH_MS = 2592000000;  // 30 * 24 * 60 * 60 * 1000
+const WEEK_MS = 604800000;    // 7 * 24 * 60 * 60 * 1000
+const DAY_MS = 86400000;      // 24 * 60 * 60 * 1000
 
 export class DurationInterval {
+  private readonly _years: number;
+  private readonly _months: number;
+  private readonly _weeks: number;
+  private readonly _days: number;
+  // Exact time part (hours, minutes, seconds, milliseconds) in milliseconds
+  private readonly _time: number;
+  // Nominal length (365-day years, 30-day months) - pre-calculated for performance
   private readonly _milliseconds: number;
 
-  constructor(milliseconds: number) {
-    this._milliseconds = Math.abs(milliseconds); // Always positive
+  constructor(milliseconds: number, components?: DurationComponents) {
+    if (components) {
+      const years = Math.abs(components.years ?? 0);
+      const months = Math.abs(components.months ?? 0);
+      const weeks = Math.abs(components.weeks ?? 0);
+      const days = Math.abs(components.days ?? 0);
+      // Calendar components stay whole units; fractions become exact time at their nominal length (P1.5D = P1DT12H)
+      this._years = Math.floor(years);
+      this._months = Math.floor(months);
+      this._weeks = Math.floor(weeks);
+      this._days = Math.floor(days);
+      this._time = Math.round((years - this._years) * YEAR_MS +
+                              (months - this._months) * MONTH_MS +
+                              (weeks - this._weeks) * WEEK_MS +
+                              (days - this._days) * DAY_MS) +
+                   Math.abs(components.hours ?? 0) * 3600000 +
+                   Math.abs(components.minutes ?? 0) * 60000 +
+                   Math.abs(components.seconds ?? 0) * 1000 +
+                   Math.abs(components.milliseconds ?? 0);
+      this._milliseconds = this._years * YEAR_MS +
+                           this._months * MONTH_MS +
+                           this._weeks * WEEK_MS +
+                           this._days * DAY_MS +
+                           this._time;
+    } else {
+      this._years = this._months = this._weeks = this._days = 0;
+      this._time = this._milliseconds = Math.abs(milliseconds); // Always positive
+    }
   }
 
+  /**
+   * Nominal length in milliseconds (years count 365 days, months 30 days)
+   * Use addTo() for calendar-correct arithmetic
+   */
   get milliseconds(): number {
     return this._milliseconds;
   }
 
+  /**
+   * Calendar components of this duration
+   * The exact time part is broken down into hours, minutes, seconds and milliseconds
+   */
+  get components(): Required<DurationComponents> {
+    const time = this._time;
+    return {
+      years: this._years,
+      months: this._months,
+      weeks: this._weeks,
+      days: this._days,
+      hours: Math.floor(time / 3600000),
+      minutes: Math.floor(time / 60000) % 60,
+      seconds: Math.floor(time / 1000) % 60,
+      milliseconds: time % 1000
+    };
+  }
+
+  /**
+   * True if the duration has calendar components whose length depends on the date
+   */
+  get isCalendar(): boolean {
+    return this._years !== 0 || this._months !== 0 || this._weeks !== 0 || this._days !== 0;
+  }
+
+  /**
+   * Create duration from calendar components
+   * Example: DurationInterval.fromComponents({ months: 1, days: 2 })
+   */
+  static fromComponents(components: DurationComponents): DurationInterval {
+    return new DurationInterval(0, components);
+  }
+
   /**
    * Create duration from days
    */
   static fromDays(days: number): DurationInterval {
-    return new DurationInterval(days * 24 * 60 * 60 * 1000);
+    return new DurationInterval(0, { days });
   }
 
   /**
@@ -48,54 +126,149 @@ export class DurationInterval {
    * Create duration from weeks
    */
   static fromWeeks(weeks: number): DurationInterval {
-    return new DurationInterval(weeks * 7 * 24 * 60 * 60 * 1000);
+    return new DurationInterval(0, { weeks });
   }
 
   /**
-   * Create duration from months (approximate - 30 days)
+   * Create duration from calendar months (nominal length 30 days)
    */
   static fromMonths(months: number): DurationInterval {
-    return new DurationInterval(months * 30 * 24 * 60 * 60 * 1000);
+    return new DurationInterval(0, { months });
   }
 
   /**
-   * Create duration from years (approximate - 365 days)
+   * Create duration from calendar years (nominal length 365 days)
    */
   static fromYears(years: number): DurationInterval {
-    return new DurationInterval(years * 365 * 24 * 60 * 60 * 1000);
+    return new DurationInterval(0, { years });
   }
 
   /**
    * Parse ISO 8601 duration strings like "P1Y2M3DT4H5M6S"
-   * Optimized regex for performance
+   * Any component may carry a decimal fraction ("P1.5D", "PT0,5H")
    */
   static fromISO8601(iso: string): DurationInterval {
     // Pre-compiled regex stored as static for performance
-    const regex = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+    const regex = /^P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
     const matches = iso.match(regex);
-    
+
     if (!matches) {
       throw new Error(`Invalid ISO 8601 duration: ${iso}`);
     }
 
     const [, years, months, weeks, days, hours, minutes, seconds] = matches;
-    
+
     // Must have at least one component
     if (!years && !months && !weeks && !days && !hours && !minutes && !seconds) {
       throw new Error(`Invalid ISO 8601 duration: ${iso}`);
     }
-    
-    // Optimized calculation - pre-calculate constants
-    let totalMs = 0;
-    if (years) totalMs += parseInt(years) * 31536000000; // 365 * 24 * 60 * 60 * 1000
-    if (months) totalMs += parseInt(months) * 2592000000; // 30 * 24 * 60 * 60 * 1000
-    if (weeks) totalMs += parseInt(weeks) * 604800000; // 7 * 24 * 60 * 60 * 1000
-    if (days) totalMs += parseInt(days) * 86400000; // 24 * 60 * 60 * 1000
-    if (hours) totalMs += parseInt(hours) * 3600000; // 60 * 60 * 1000
-    if (minutes) totalMs += parseInt(minutes) * 60000; // 60 * 1000
-    if (seconds) totalMs += parseFloat(seconds) * 1000;
 
-    return new DurationInterval(totalMs);
+    // Decimal comma and decimal point are both allowed
+    const value = (component: string | undefined) => component ? parseFloat(component.replace(',', '.')) : 0;
+    return new DurationInterval(0, {
+      years: value(years),
+      months: value(months),
+      weeks: value(weeks),
+      days: value(days),
+      milliseconds: Math.round((value(hours) * 3600 + value(minutes) * 60 + value(seconds)) * 1000)
+    });
+  }
+
+  /**
+   * Add this duration to a timestamp the way a calendar does
+   * Years and months keep the day of month, clamped to the month end (Jan 31 + P1M = Feb 29),
+   * weeks and days keep the wall-clock time in the zone, the time part is exact elapsed time
+   */
+  addTo(timestamp: number, zone: string = 'UTC'): number {
+    return this._shift(timestamp, 1, zone);
+  }
+
+  /**
+   * Subtract this duration from a timestamp the way a calendar does
+   * Mirror of addTo (Mar 31 - P1M = Feb 29)
+   */
+  subtractFrom(timestamp: number, zone: string = 'UTC'): number {
+    return this._shift(timestamp, -1, zone);
+  }
+
+  /**
+   * Multiply every component by a factor, e.g. P1M x 3 = P3M
+   * Stepping from a fixed start keeps calendar days: Jan 31 + P1M x 2 = Mar 31, not Mar 29
+   */
+  multiply(factor: number): DurationInterval {
+    return new DurationInterval(0, {
+      years: this._years * factor,
+      months: this._months * factor,
+      weeks: this._weeks * factor,
+      days: this._days * factor,
+      milliseconds: this._time * factor
+    });
+  }
+
+  /**
+   * Split into two halves that add up to this duration
+   * Calendar units are not divisible, so odd counts put the extra unit in the second half
+   */
+  split(): [DurationInterval, DurationInterval] {
+    const totalMonths = this._years * 12 + this._months;
+    const totalDays = this._weeks * 7 + this._days;
+    const firstMonths = Math.floor(totalMonths / 2);
+    const firstDays = Math.floor(totalDays / 2);
+    const firstTime = Math.floor(this._time / 2);
+
+    return [
+      new DurationInterval(0, { months: firstMonths, days: firstDays, milliseconds: firstTime }),
+      new DurationInterval(0, { months: totalMonths - firstMonths, days: totalDays - firstDays, milliseconds: this._time - firstTime })
+    ];
+  }
+
+  /**
+   * Format as ISO 8601 duration string, e.g. "P1Y2M3DT4H5M6S"
+   * A zero duration is "PT0S"
+   */
+  toISO8601(): string {
+    const { years, months, weeks, days, hours, minutes, seconds, milliseconds } = this.components;
+
+    let date = '';
+    if (years) date += `${years}Y`;
+    if (months) date += `${months}M`;
+    if (weeks) date += `${weeks}W`;
+    if (days) date += `${days}D`;
+
+    let time = '';
+    if (hours) time += `${hours}H`;
+    if (minutes) time += `${minutes}M`;
+    if (seconds || milliseconds) {
+      time += milliseconds ? `${(seconds * 1000 + milliseconds) / 1000}S` : `${seconds}S`;
+    }
+
+    if (!date && !time) {
+      return 'PT0S';
+    }
+    return `P${date}${time ? 'T' + time : ''}`;
+  }
+
+  /**
+   * Wire format for JSON.stringify (schema version 1) - the ISO 8601 duration keeps calendar components
+   */
+  toJSON(): DurationIntervalJSON {
+    return { type: 'DurationInterval', version: JSON_SCHEMA_VERSION, iso: this.toISO8601() };
+  }
+
+  /**
+   * Rebuild a duration from its wire format (object or JSON text)
+   */
+  static fromJSON(input: DurationIntervalJSON | string): DurationInterval {
+    const json = JSONUtils.read(input, ['DurationInterval']);
+    // fromISO8601 rejects the zero duration
+    return json.iso === 'PT0S' ? new DurationInterval(0) : DurationInterval.fromISO8601(json.iso);
+  }
+
+  /**
+   * String representation (ISO 8601 duration)
+   */
+  toString(): string {
+    return this.toISO8601();
   }
 
   /**
@@ -117,4 +290,39 @@ export class DurationInterval {
       days
     };
   }
+
+  /**
+   * Shared calendar arithmetic for addTo / subtractFrom
+   */
+  private _shift(timestamp: number, sign: 1 | -1, zone: string): number {
+    // Fast path: exact durations are plain millisecond arithmetic
+    if (!this.isCalendar) {
+      return timestamp + sign * this._time;
+    }
+    // Infinite endpoints of open-ended periods stay infinite
+    if (timestamp === Infinity || timestamp === -Infinity) {
+      return timestamp;
+    }
+
+    const utc = TimeZone.isUTC(zone);
+    const date = new Date(timestamp);
+    const p = utc ? null : TimeZone.toParts(timestamp, zone);
+    const year = p ? p.year : date.getUTCFullYear();
+    const month = p ? p.month : date.getUTCMonth();
+    const day = p ? p.day : date.getUTCDate();
+    const hour = p ? p.hour : date.getUTCHours();
+    const minute = p ? p.minute : date.getUTCMinutes();
+    const second = p ? p.second : date.getUTCSeconds();
+    const millisecond = p ? p.millisecond : date.getUTCMilliseconds();
+
+    // Years and months first, clamping the day to the target month's length
+    const monthIndex = year * 12 + month + sign * (this._years * 12 + this._months);
+    const targetYear = Math.floor(monthIndex / 12);
+    const targetMonth = monthIndex - targetYear * 12;
+    const monthLength = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+    const targetDay = Math.min(day, monthLength) + sign * (this._weeks * 7 + this._days);
+
+    const shifted = TimeZone.fromWallTime(zone, targetYear, targetMonth, targetDay, hour, minute, second, millisecond);
+    return shifted + sign * this._time;
+  }
 }
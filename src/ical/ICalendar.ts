@@ -0,0 +1,388 @@
+/**
+ * iCalendar (.ics) export and import of periods as VEVENTs
+ * Day-precision periods become all-day events (VALUE=DATE) covering the days their bounds include;
+ * finer periods become timed events
+ */
+
+import { Period } from '../core/Period';
+import { Bounds, Precision, PrecisionUtils } from '../core/types';
+import { TimeZone } from '../core/TimeZone';
+import { DurationInterval } from '../duration/DurationInterval';
+import { RecurrenceRule } from '../recurrence/RecurrenceRule';
+import { ContentLine, ICalendarFormat } from './ICalendarFormat';
+
+/**
+ * Options for writing .ics text
+ */
+export interface ICSExportOptions<P extends Period = Period> {
+  /** Event title for each period (SUMMARY), no title if not given */
+  readonly summary?: (period: P, index: number) => string;
+  /** Product identifier of the calendar (PRODID) */
+  readonly prodId?: string;
+  /** Creation time written as DTSTAMP (defaults to now) */
+  readonly timestamp?: Date;
+}
+
+/**
+ * Options for reading .ics text
+ */
+export interface ICSImportOptions {
+  /** Only the parts of events inside this window are returned; required for unlimited RRULEs */
+  readonly window?: Period;
+  /** Bounds of the imported periods (defaults to Bounds.IncludeStartExcludeEnd, as in iCalendar) */
+  readonly bounds?: Bounds;
+}
+
+const DEFAULT_PROD_ID = '-//period-sequence//EN';
+
+// Times without TZID: floating time, read as UTC
+const FLOATING: EventZone = { zone: 'UTC', offset: 0 };
+
+// Windows time zone names used as TZID by Outlook and Exchange, with their IANA zones (CLDR windowsZones)
+const WINDOWS_ZONES = new Map<string, string>([
+  ['Dateline Standard Time', 'Etc/GMT+12'],
+  ['Hawaiian Standard Time', 'Pacific/Honolulu'],
+  ['Alaskan Standard Time', 'America/Anchorage'],
+  ['Pacific Standard Time', 'America/Los_Angeles'],
+  ['US Mountain Standard Time', 'America/Phoenix'],
+  ['Mountain Standard Time', 'America/Denver'],
+  ['Central Standard Time', 'America/Chicago'],
+  ['Eastern Standard Time', 'America/New_York'],
+  ['Atlantic Standard Time', 'America/Halifax'],
+  ['E. South America Standard Time', 'America/Sao_Paulo'],
+  ['UTC', 'UTC'],
+  ['GMT Standard Time', 'Europe/London'],
+  ['Greenwich Standard Time', 'Atlantic/Reykjavik'],
+  ['W. Europe Standard Time', 'Europe/Berlin'],
+  ['Central Europe Standard Time', 'Europe/Budapest'],
+  ['Romance Standard Time', 'Europe/Paris'],
+  ['Central European Standard Time', 'Europe/Warsaw'],
+  ['GTB Standard Time', 'Europe/Bucharest'],
+  ['FLE Standard Time', 'Europe/Helsinki'],
+  ['E. Europe Standard Time', 'Europe/Chisinau'],
+  ['Israel Standard Time', 'Asia/Jerusalem'],
+  ['Russian Standard Time', 'Europe/Moscow'],
+  ['Arabian Standard Time', 'Asia/Dubai'],
+  ['India Standard Time', 'Asia/Kolkata'],
+  ['SE Asia Standard Time', 'Asia/Bangkok'],
+  ['China Standard Time', 'Asia/Shanghai'],
+  ['Singapore Standard Time', 'Asia/Singapore'],
+  ['Tokyo Standard Time', 'Asia/Tokyo'],
+  ['Korea Standard Time', 'Asia/Seoul'],
+  ['AUS Eastern Standard Time', 'Australia/Sydney'],
+  ['New Zealand Standard Time', 'Pacific/Auckland']
+]);
+
+export namespace ICalendar {
+  /**
+   * Write periods as a VCALENDAR with one VEVENT each (CRLF line breaks)
+   * All-day events cover the whole days a period includes: [Jan 1, Jan 5] ends on DTEND Jan 6.
+   * Periods covering no whole day and periods without start or end are left out
+   */
+  export function toICS<P extends Period>(periods: Iterable<P>, options: ICSExportOptions<P> = {}): string {
+    const stamp = ICalendarFormat.formatDateTime((options.timestamp ?? new Date()).getTime());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      ICalendarFormat.formatLine('PRODID', options.prodId ?? DEFAULT_PROD_ID),
+      'CALSCALE:GREGORIAN'
+    ];
+
+    let index = 0;
+    for (const period of periods) {
+      const event = eventDates(period);
+      if (event) {
+        lines.push(
+          'BEGIN:VEVENT',
+          ICalendarFormat.formatLine('UID', `${event.start.value}-${index + 1}@period-sequence`),
+          `DTSTAMP:${stamp}`,
+          ICalendarFormat.formatLine('DTSTART', event.start.value, event.start.params),
+          ICalendarFormat.formatLine('DTEND', event.end.value, event.end.params)
+        );
+        if (options.summary) {
+          lines.push(ICalendarFormat.formatLine('SUMMARY', ICalendarFormat.escapeText(options.summary(period, index))));
+        }
+        lines.push('END:VEVENT');
+      }
+      index++;
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Read the VEVENT date ranges of .ics text as periods, in start order
+   * All-day events get day precision, timed events the precision their times need.
+   * Recurring events are expanded; rules the recurrence engine cannot express keep only
+   * their first occurrence. Events without length and cancelled events are skipped.
+   * TZIDs that are no IANA zone are resolved from Windows names (Outlook) or the calendar's
+   * VTIMEZONE definitions; a TZID none of them resolves is an error
+   */
+  export function fromICS(text: string, options: ICSImportOptions = {}): Period[] {
+    const lines = ICalendarFormat.parseLines(text);
+    const zones = calendarZones(lines);
+    const periods: Period[] = [];
+    let event: Map<string, ContentLine[]> | null = null;
+    // Components nested in an event (VALARM) have properties of their own
+    let nested = 0;
+
+    for (const line of lines) {
+      const component = line.value.toUpperCase();
+      if (line.name === 'BEGIN') {
+        if (event) nested++;
+        else if (component === 'VEVENT') event = new Map();
+      } else if (line.name === 'END' && nested > 0) {
+        nested--;
+      } else if (line.name === 'END' && component === 'VEVENT') {
+        if (event) {
+          periods.push(...eventPeriods(event, options, zones));
+        }
+        event = null;
+      } else if (event && nested === 0) {
+        event.set(line.name, [...(event.get(line.name) ?? []), line]);
+      }
+    }
+
+    return periods.sort((a, b) => a.startTime - b.startTime);
+  }
+
+  /**
+   * DTSTART and DTEND values of a period
+   */
+  function eventDates(period: Period): { start: DateValue; end: DateValue } | null {
+    const zone = period.zone;
+    if (!period.isBounded()) {
+      return null;
+    }
+
+    if (period.precision === Precision.Day) {
+      // DTEND is exclusive: write the canonical [start, end) form of the days covered
+      const days = period._toDiscrete();
+      if (!days) {
+        return null;
+      }
+      const params = { VALUE: 'DATE' };
+      return {
+        start: { value: ICalendarFormat.formatDate(days.startTime, zone), params },
+        end: { value: ICalendarFormat.formatDate(days.endTime, zone), params }
+      };
+    }
+
+    const params: Record<string, string> = TimeZone.isUTC(zone) ? {} : { TZID: zone };
+    return {
+      start: { value: ICalendarFormat.formatDateTime(period.startTime, zone), params },
+      end: { value: ICalendarFormat.formatDateTime(period.endTime, zone), params }
+    };
+  }
+
+  /**
+   * Periods of one VEVENT, expanded if it recurs and clipped to the window
+   */
+  function eventPeriods(event: Map<string, ContentLine[]>, options: ICSImportOptions, zones: ReadonlyMap<string, EventZone>): Period[] {
+    const dtstart = event.get('DTSTART')?.[0];
+    if (!dtstart || event.get('STATUS')?.[0].value.toUpperCase() === 'CANCELLED') {
+      return [];
+    }
+
+    const allDay = dtstart.params.VALUE === 'DATE' || ICalendarFormat.isDate(dtstart.value);
+    const startZone = dtstart.params.TZID === undefined ? FLOATING : resolveZone(dtstart.params.TZID, zones);
+    const zone = startZone.zone;
+    const start = parseDate(dtstart.value, startZone);
+    const end = eventEnd(event, start, allDay, startZone, zones);
+    // DTEND is exclusive, so events without length cover no time
+    if (end <= start) {
+      return [];
+    }
+
+    const bounds = options.bounds ?? Bounds.IncludeStartExcludeEnd;
+    const precision = allDay ? Precision.Day : Math.min(PrecisionUtils.detect(start), PrecisionUtils.detect(end - start));
+    const first = new Period(start, end, Bounds.IncludeStartExcludeEnd, { precision, zone });
+    const occurrences = eventOccurrences(event, first, options.window, zones);
+
+    const periods: Period[] = [];
+    for (const occurrence of occurrences) {
+      const clipped = options.window ? occurrence.intersection(options.window) : occurrence;
+      if (!clipped.isEmpty()) {
+        periods.push(bounds === Bounds.IncludeStartExcludeEnd ? clipped : clipped.canonicalize(bounds));
+      }
+    }
+    return periods;
+  }
+
+  /**
+   * End of the first occurrence from DTEND or DURATION
+   * Without either, all-day events last one day and timed events have no length
+   */
+  function eventEnd(event: Map<string, ContentLine[]>, start: number, allDay: boolean, startZone: EventZone,
+                    zones: ReadonlyMap<string, EventZone>): number {
+    const dtend = event.get('DTEND')?.[0];
+    if (dtend) {
+      return parseDate(dtend.value, dtend.params.TZID === undefined ? startZone : resolveZone(dtend.params.TZID, zones));
+    }
+    const duration = event.get('DURATION')?.[0];
+    if (duration) {
+      return DurationInterval.fromISO8601(duration.value).addTo(start, startZone.zone);
+    }
+    return allDay ? TimeZone.addDays(start, 1, startZone.zone) : start;
+  }
+
+  /**
+   * Occurrences of an event: the first one alone, or the expansion of its RRULE and EXDATEs
+   */
+  function eventOccurrences(event: Map<string, ContentLine[]>, first: Period, window: Period | undefined,
+                            zones: ReadonlyMap<string, EventZone>): Iterable<Period> {
+    const rrule = event.get('RRULE')?.[0];
+    if (!rrule) {
+      return [first];
+    }
+
+    const text = [
+      ...(event.get('DTSTART') ?? []).map(line => ruleLine(line, zones)),
+      ...(event.get('EXDATE') ?? []).map(line => ruleLine(line, zones)),
+      rrule
+    ].map(line => ICalendarFormat.formatLine(line.name, line.value, line.params)).join('\r\n');
+
+    let rule: RecurrenceRule;
+    try {
+      rule = RecurrenceRule.parse(text, {
+        duration: new DurationInterval(0, durationComponents(first)),
+        zone: first.zone
+      });
+    } catch {
+      return [first];
+    }
+
+    if (rule.count !== undefined || rule.until !== undefined) {
+      return rule.periods();
+    }
+    if (!window) {
+      throw new Error(`Unlimited RRULE needs a window: ${rrule.value}`);
+    }
+    return rule.between(window);
+  }
+
+  /**
+   * DTSTART or EXDATE line for the recurrence engine: TZIDs become the IANA zones they resolve to,
+   * times in fixed-offset zones become UTC
+   */
+  function ruleLine(line: ContentLine, zones: ReadonlyMap<string, EventZone>): ContentLine {
+    if (line.params.TZID === undefined) {
+      return line;
+    }
+    const eventZone = resolveZone(line.params.TZID, zones);
+    if (eventZone.offset === 0) {
+      return { ...line, params: { ...line.params, TZID: eventZone.zone } };
+    }
+    const { TZID, ...params } = line.params;
+    const values = line.value.split(',').map(value =>
+      ICalendarFormat.isDate(value) ? value : ICalendarFormat.formatDateTime(parseDate(value, eventZone)));
+    return { ...line, params, value: values.join(',') };
+  }
+
+  /**
+   * Zone of a TZID: the TZID itself if it is an IANA zone, its Windows mapping or the calendar's VTIMEZONE
+   */
+  function resolveZone(tzid: string, zones: ReadonlyMap<string, EventZone>): EventZone {
+    if (TimeZone.isValid(tzid)) {
+      return { zone: tzid, offset: 0 };
+    }
+    const windows = WINDOWS_ZONES.get(tzid);
+    if (windows) {
+      return { zone: windows, offset: 0 };
+    }
+    const defined = zones.get(tzid);
+    if (!defined) {
+      throw new Error(`Unknown iCalendar time zone: ${tzid}`);
+    }
+    return defined;
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME in an event zone; fixed offsets apply to values without 'Z'
+   */
+  function parseDate(value: string, eventZone: EventZone): number {
+    const time = ICalendarFormat.parseDate(value, eventZone.zone);
+    return eventZone.offset === 0 || /Z$/i.test(value.trim()) ? time : time - eventZone.offset;
+  }
+
+  /**
+   * Zones the calendar defines in VTIMEZONE components, by TZID
+   * A definition resolves through its X-LIC-LOCATION if that is an IANA zone, or to a fixed
+   * offset if it only has STANDARD parts with one TZOFFSETTO; rule-based definitions are left out
+   */
+  function calendarZones(lines: readonly ContentLine[]): Map<string, EventZone> {
+    const zones = new Map<string, EventZone>();
+    let definition: { tzid?: string; location?: string; offsets: Set<string>; daylight: boolean } | null = null;
+    let part: string | null = null;
+
+    for (const line of lines) {
+      const component = line.value.toUpperCase();
+      if (line.name === 'BEGIN' && component === 'VTIMEZONE') {
+        definition = { offsets: new Set(), daylight: false };
+      } else if (!definition) {
+        continue;
+      } else if (line.name === 'BEGIN') {
+        part = component;
+        definition.daylight ||= component === 'DAYLIGHT';
+      } else if (line.name === 'END' && component === 'VTIMEZONE') {
+        const zone = resolveDefinition(definition);
+        if (definition.tzid !== undefined && zone) {
+          zones.set(definition.tzid, zone);
+        }
+        definition = null;
+      } else if (line.name === 'END') {
+        part = null;
+      } else if (part === null && line.name === 'TZID') {
+        definition.tzid = line.value;
+      } else if (part === null && line.name === 'X-LIC-LOCATION') {
+        definition.location = line.value;
+      } else if (part !== null && line.name === 'TZOFFSETTO') {
+        definition.offsets.add(line.value);
+      }
+    }
+    return zones;
+  }
+
+  /**
+   * Zone of a VTIMEZONE definition, or null if it cannot be resolved
+   */
+  function resolveDefinition(definition: { location?: string; offsets: ReadonlySet<string>; daylight: boolean }): EventZone | null {
+    if (definition.location !== undefined && TimeZone.isValid(definition.location)) {
+      return { zone: definition.location, offset: 0 };
+    }
+    if (definition.daylight || definition.offsets.size !== 1) {
+      return null;
+    }
+    const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec([...definition.offsets][0]);
+    if (!match) {
+      return null;
+    }
+    const [, sign, hours, minutes, seconds = '0'] = match;
+    const offset = (parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10)) * 1000;
+    return { zone: 'UTC', offset: sign === '-' ? -offset : offset };
+  }
+
+  /**
+   * Length of the first occurrence: whole days for all-day events, exact time otherwise
+   */
+  function durationComponents(period: Period): { days?: number; milliseconds?: number } {
+    if (period.precision === Precision.Day) {
+      return { days: Math.round((period.endTime - period.startTime) / 86400000) };
+    }
+    return { milliseconds: period.endTime - period.startTime };
+  }
+}
+
+// Zone event times are read in: an IANA zone, or UTC shifted by a fixed VTIMEZONE offset
+interface EventZone {
+  readonly zone: string;
+  // Milliseconds the wall clock is ahead of UTC, 0 for IANA zones
+  readonly offset: number;
+}
+
+// A DATE or DATE-TIME value with the parameters it is written with
+interface DateValue {
+  readonly value: string;
+  readonly params: Readonly<Record<string, string>>;
+}
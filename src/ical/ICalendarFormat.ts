@@ -0,0 +1,149 @@
+/**
+ * Low-level iCalendar (RFC 5545) syntax: content lines, dates and text values
+ * Shared by recurrence rules and .ics import/export
+ */
+
+import { TimeZone } from '../core/TimeZone';
+
+/**
+ * One unfolded content line, e.g. DTSTART;TZID=Europe/Berlin:20240101T090000
+ */
+export interface ContentLine {
+  /** Property name, upper case */
+  readonly name: string;
+  /** Parameters by upper-case name, quotes removed */
+  readonly params: Readonly<Record<string, string>>;
+  readonly value: string;
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// Lines are folded to at most 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+export namespace ICalendarFormat {
+  /**
+   * Unfold and split text into content lines (CRLF or LF line breaks)
+   */
+  export function parseLines(text: string): ContentLine[] {
+    const lines: ContentLine[] = [];
+    for (const raw of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+      const line = raw.trim();
+      if (line !== '') {
+        lines.push(parseLine(line));
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Split a single unfolded line into name, parameters and value
+   * Colons inside quoted parameter values do not end the name part
+   */
+  export function parseLine(line: string): ContentLine {
+    let colon = -1;
+    let quoted = false;
+    for (let i = 0; i < line.length && colon === -1; i++) {
+      if (line[i] === '"') quoted = !quoted;
+      else if (line[i] === ':' && !quoted) colon = i;
+    }
+    if (colon === -1) {
+      throw new Error(`Invalid iCalendar line: ${line}`);
+    }
+
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const separator = param.indexOf('=');
+      const key = separator === -1 ? param : param.slice(0, separator);
+      params[key.toUpperCase()] = separator === -1 ? '' : param.slice(separator + 1).replace(/^"(.*)"$/, '$1');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+  }
+
+  /**
+   * Format a content line, folded to 75 octets
+   */
+  export function formatLine(name: string, value: string, params: Readonly<Record<string, string>> = {}): string {
+    let line = name;
+    for (const [key, paramValue] of Object.entries(params)) {
+      line += `;${key}=${/[:;,]/.test(paramValue) ? `"${paramValue}"` : paramValue}`;
+    }
+    return fold(`${line}:${value}`);
+  }
+
+  /**
+   * Check whether a value is a DATE (all-day) rather than a DATE-TIME
+   */
+  export function isDate(value: string): boolean {
+    return /^\d{8}$/.test(value.trim());
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME; values without 'Z' are wall-clock time in the zone
+   * DATE values are midnight in the zone
+   */
+  export function parseDate(value: string, zone: string): number {
+    const match = DATE_VALUE.exec(value.trim());
+    if (!match) {
+      throw new Error(`Invalid iCalendar date: ${value}`);
+    }
+    const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+    const parts = [year, month, day, hour, minute, second].map(part => parseInt(part, 10));
+    return TimeZone.fromWallTime(utc ? 'UTC' : zone, parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+  }
+
+  /**
+   * Format the calendar date of a timestamp in the zone as DATE (YYYYMMDD)
+   */
+  export function formatDate(timestamp: number, zone: string = 'UTC'): string {
+    return new Date(TimeZone.calendarDate(timestamp, zone)).toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
+  /**
+   * Format as DATE-TIME: UTC with a 'Z' suffix, otherwise wall-clock time in the zone
+   */
+  export function formatDateTime(timestamp: number, zone: string = 'UTC'): string {
+    if (TimeZone.isUTC(zone)) {
+      return new Date(timestamp).toISOString().slice(0, 19).replace(/[-:]/g, '') + 'Z';
+    }
+    return TimeZone.toLocalISOString(timestamp, zone).slice(0, 19).replace(/[-:]/g, '');
+  }
+
+  /**
+   * Escape a TEXT value (backslash, semicolon, comma, newline)
+   */
+  export function escapeText(text: string): string {
+    return text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Undo TEXT escaping
+   */
+  export function unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => char === 'n' || char === 'N' ? '\n' : char);
+  }
+
+  /**
+   * Fold a line into chunks of at most 75 UTF-8 octets, never splitting a character
+   */
+  function fold(line: string): string {
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    for (const char of line) {
+      const code = char.codePointAt(0)!;
+      const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+      // Continuation lines lose one octet to the leading space
+      if (octets + size > MAX_LINE_OCTETS - (chunks.length ? 1 : 0)) {
+        chunks.push(chunk);
+        chunk = '';
+        octets = 0;
+      }
+      chunk += char;
+      octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+  }
+}
@@ -1,13 +1,23 @@
 import { Period as PeriodClass } from './core/Period';
-import { Duration as DurationType } from './core/types';
+import { Duration as DurationType, PeriodJSON, DurationIntervalJSON } from './core/types';
 import { PeriodConstructors } from './constructors/PeriodConstructors';
+import { Sequence as SequenceClass, SequenceJSON } from './sequence/Sequence';
+import { DurationInterval as DurationIntervalClass } from './duration/DurationInterval';
+import { BusinessCalendar as BusinessCalendarClass } from './calendar/BusinessCalendar';
 
 // Core exports
 export { Period as PeriodClass } from './core/Period';
-export { Bounds, Duration, BoundsUtils } from './core/types';
+export { Bounds, Duration, DurationComponents, AllenRelation, BoundsUtils, Precision, PeriodOptions, PrecisionUtils, Semantics, Weekday, Frequency, Observance, BoundsNotation, PrecisionName, JSON_SCHEMA_VERSION, PeriodJSON, DurationIntervalJSON } from './core/types';
+export { PeriodSettings } from './core/PeriodSettings';
+export { TaggedPeriod, PayloadOf, PayloadCombiner, TaggedPeriodJSON } from './core/Period';
+export { TimeZone, ZonedParts } from './core/TimeZone';
 export { DurationInterval } from './duration/DurationInterval';
-export { Sequence } from './sequence/Sequence';
-export { PeriodConstructors } from './constructors/PeriodConstructors';
+export { Sequence, Conflict, SequenceJSON, CalendarUnit, GroupOptions, SlotAlignment, SlotOptions } from './sequence/Sequence';
+export { PeriodConstructors, ConstructorOptions, RepeatingOptions } from './constructors/PeriodConstructors';
+export { RecurrenceRule, RecurrenceOptions, WeekdayRule } from './recurrence/RecurrenceRule';
+export { ICSExportOptions, ICSImportOptions } from './ical/ICalendar';
+export { BusinessCalendar, BusinessCalendarOptions } from './calendar/BusinessCalendar';
+export { Holidays, HolidayRule, HolidayRuleBase, FixedHolidayRule, NthWeekdayHolidayRule, EasterHolidayRule, HolidayOptions } from './calendar/Holidays';
 
 // Performance utilities
 export { PerformanceBenchmarks, runPerformanceBenchmarks } from './performance/PerformanceBenchmarks';
@@ -31,7 +41,16 @@ export class Period extends PeriodClass {
   static after = PeriodConstructors.after;
   static before = PeriodConstructors.before;
   static around = PeriodConstructors.around;
+  static afterBusinessDays = PeriodConstructors.afterBusinessDays;
   static fromISO8601 = PeriodConstructors.fromISO8601;
+  static parse = PeriodConstructors.parse;
+
+  // Open-ended constructors
+  static from = PeriodConstructors.from;
+  static until = PeriodConstructors.until;
+  static all = PeriodConstructors.all;
+  static empty = PeriodConstructors.empty;
+  static instant = PeriodConstructors.instant;
   
   // Convenience constructors
   static today = PeriodConstructors.today;
@@ -56,4 +75,53 @@ export function periodsOverlap(period1: Period, period2: Period): boolean {
 
 export function formatPeriod(period: Period, format: 'short' | 'long' = 'short'): string {
   return period.format(format);
-}
\ No newline at end of file
+}
+
+export function addBusinessDays(date: Date | string | number, n: number, calendar: BusinessCalendarClass): Date {
+  return calendar.addBusinessDays(date, n);
+}
+
+/**
+ * JSON.parse reviver rebuilding Period, TaggedPeriod, Sequence and DurationInterval wire objects
+ * Only objects with the wire format's version and fields are rebuilt, so look-alike payloads stay as they are
+ * Example: JSON.parse(text, periodReviver)
+ */
+export function periodReviver(_key: string, value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || Array.isArray(value) || !isWireObject(value as Record<string, unknown>)) {
+    return value;
+  }
+
+  switch ((value as { type?: unknown }).type) {
+    case 'Period':
+    case 'TaggedPeriod':
+      return PeriodClass.fromJSON(value as PeriodJSON);
+    case 'Sequence':
+      return SequenceClass.fromJSON(value as SequenceJSON);
+    case 'DurationInterval':
+      return DurationIntervalClass.fromJSON(value as DurationIntervalJSON);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check an object for the version and required fields of its wire format
+ */
+function isWireObject(value: Record<string, unknown>): boolean {
+  if (!Number.isInteger(value.version)) {
+    return false;
+  }
+  const isPeriod = typeof value.start === 'string' && typeof value.end === 'string' &&
+                   typeof value.bounds === 'string' && typeof value.precision === 'string';
+  switch (value.type) {
+    case 'Period':
+    case 'TaggedPeriod':
+      return isPeriod;
+    case 'Sequence':
+      return Array.isArray(value.periods);
+    case 'DurationInterval':
+      return typeof value.iso === 'string';
+    default:
+      return false;
+  }
+}
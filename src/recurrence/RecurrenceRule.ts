@@ -0,0 +1,589 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE) expanded lazily into periods
+ * Supports FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYSETPOS plus EXDATE exclusions;
+ * occurrences follow the wall clock of the rule's zone, so a 09:00 standup stays at 09:00 across DST
+ */
+
+import { Period } from '../core/Period';
+import { Bounds, Frequency, Precision, PrecisionUtils, Weekday } from '../core/types';
+import { TimeZone } from '../core/TimeZone';
+import { DurationInterval } from '../duration/DurationInterval';
+import { PeriodConstructors } from '../constructors/PeriodConstructors';
+import { Sequence } from '../sequence/Sequence';
+import { ContentLine, ICalendarFormat } from '../ical/ICalendarFormat';
+
+/**
+ * A weekday in BYDAY, optionally its n-th occurrence within the month or year
+ * Example: { weekday: Weekday.Friday, nth: -1 } is the last Friday (-1FR)
+ */
+export interface WeekdayRule {
+  readonly weekday: Weekday;
+  /** Occurrence within the month (Monthly) or year (Yearly), negative counts from the end */
+  readonly nth?: number;
+}
+
+/**
+ * Settings of a recurrence rule
+ * Dates given as strings without an offset are wall-clock time in the zone
+ */
+export interface RecurrenceOptions {
+  /** Repetition unit (FREQ) */
+  readonly frequency: Frequency;
+  /** Start of the first occurrence (DTSTART); its time of day is kept for every occurrence */
+  readonly start: Date | string | number;
+  /** Length of each occurrence (defaults to one day) */
+  readonly duration?: DurationInterval;
+  /** Repeat every n-th frequency unit (INTERVAL, defaults to 1) */
+  readonly interval?: number;
+  /** Number of occurrences, counted before exclusions (COUNT) */
+  readonly count?: number;
+  /** Latest occurrence start, inclusive (UNTIL) */
+  readonly until?: Date | string | number;
+  /** Weekdays (BYDAY) */
+  readonly byDay?: readonly (Weekday | WeekdayRule)[];
+  /** Days of the month, negative counts from the month end (BYMONTHDAY) */
+  readonly byMonthDay?: readonly number[];
+  /** Positions among the occurrences of each frequency unit, negative counts from the end (BYSETPOS) */
+  readonly bySetPos?: readonly number[];
+  /** Occurrence starts to leave out (EXDATE) */
+  readonly exdates?: readonly (Date | string | number)[];
+  /** Bounds of each occurrence (defaults to Bounds.IncludeStartExcludeEnd) */
+  readonly bounds?: Bounds;
+  /** IANA time zone whose wall clock the rule follows (defaults to UTC) */
+  readonly zone?: string;
+}
+
+const DAY_MS = 86400000;
+
+// RRULE names indexed by the numeric enums
+const FREQUENCY_NAMES: readonly string[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES: readonly string[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Expansion stops here even if a rule never produces an occurrence
+const MAX_TIMESTAMP = Date.UTC(9999, 11, 31);
+
+const BYDAY_ENTRY = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+export class RecurrenceRule {
+  private readonly _frequency: Frequency;
+  private readonly _start: number;
+  private readonly _duration: DurationInterval;
+  private readonly _interval: number;
+  private readonly _count?: number;
+  private readonly _until?: number;
+  private readonly _byDay: readonly WeekdayRule[];
+  private readonly _byMonthDay: readonly number[];
+  private readonly _bySetPos: readonly number[];
+  private readonly _exdates: ReadonlySet<number>;
+  private readonly _bounds: Bounds;
+  private readonly _zone: string;
+  // Calendar date (midnight UTC) and wall-clock time of day of the first occurrence
+  private readonly _startDate: number;
+  private readonly _timeOfDay: number;
+  // Coarsest precision that keeps every occurrence start and length exact
+  private readonly _precision: Precision;
+
+  constructor(options: RecurrenceOptions) {
+    const zone = options.zone ?? 'UTC';
+    if (!TimeZone.isValid(zone)) {
+      throw new Error(`Invalid time zone: ${zone}`);
+    }
+
+    this._frequency = options.frequency;
+    this._zone = zone;
+    this._start = RecurrenceRule._timestamp(options.start, zone);
+    this._duration = options.duration ?? DurationInterval.fromDays(1);
+    this._interval = options.interval ?? 1;
+    this._count = options.count;
+    this._until = options.until === undefined ? undefined : RecurrenceRule._timestamp(options.until, zone);
+    this._byDay = (options.byDay ?? []).map(day => typeof day === 'number' ? { weekday: day } : day);
+    this._byMonthDay = [...(options.byMonthDay ?? [])];
+    this._bySetPos = [...(options.bySetPos ?? [])];
+    this._exdates = new Set((options.exdates ?? []).map(date => RecurrenceRule._timestamp(date, zone)));
+    this._bounds = options.bounds ?? Bounds.IncludeStartExcludeEnd;
+    this._validate();
+
+    this._startDate = TimeZone.calendarDate(this._start, zone);
+    const p = TimeZone.toParts(this._start, zone);
+    this._timeOfDay = p.hour * 3600000 + p.minute * 60000 + p.second * 1000 + p.millisecond;
+    this._precision = Math.min(PrecisionUtils.detect(this._timeOfDay), PrecisionUtils.detect(this._duration.milliseconds));
+  }
+
+  /**
+   * Parse an RRULE, either the bare value ('FREQ=WEEKLY;BYDAY=MO') or iCalendar lines
+   * with DTSTART, DURATION, RRULE and EXDATE; values found in the text override the defaults
+   * Example: RecurrenceRule.parse('FREQ=MONTHLY;BYDAY=-1FR', { start: '2024-01-26' })
+   */
+  static parse(text: string, defaults: Partial<RecurrenceOptions> = {}): RecurrenceRule {
+    const bare = text.trim();
+    const lines = /^FREQ=/i.test(bare) ? [{ name: 'RRULE', params: {}, value: bare }] : ICalendarFormat.parseLines(text);
+    const properties = new Map<string, ContentLine[]>();
+
+    for (const line of lines) {
+      if (!['DTSTART', 'DURATION', 'RRULE', 'EXDATE'].includes(line.name)) {
+        throw new Error(`Unsupported recurrence property: ${line.name}`);
+      }
+      properties.set(line.name, [...(properties.get(line.name) ?? []), line]);
+    }
+
+    const rrule = properties.get('RRULE')?.[0];
+    if (!rrule) {
+      throw new Error('Missing RRULE');
+    }
+
+    const dtstart = properties.get('DTSTART')?.[0];
+    const zone = dtstart?.params.TZID ?? defaults.zone ?? 'UTC';
+    const start = dtstart ? ICalendarFormat.parseDate(dtstart.value, zone) : defaults.start;
+    if (start === undefined) {
+      throw new Error('Recurrence rule needs a start (DTSTART)');
+    }
+
+    const duration = properties.get('DURATION')?.[0];
+    const exdates = [...(defaults.exdates ?? [])];
+    for (const exdate of properties.get('EXDATE') ?? []) {
+      for (const value of exdate.value.split(',')) {
+        exdates.push(ICalendarFormat.parseDate(value, exdate.params.TZID ?? zone));
+      }
+    }
+
+    return new RecurrenceRule({
+      ...defaults,
+      ...RecurrenceRule._parseRule(rrule.value, zone),
+      start,
+      zone,
+      duration: duration ? DurationInterval.fromISO8601(duration.value) : defaults.duration,
+      exdates
+    });
+  }
+
+  /**
+   * Repetition unit
+   */
+  get frequency(): Frequency {
+    return this._frequency;
+  }
+
+  /**
+   * Start of the first possible occurrence (DTSTART)
+   */
+  get start(): Date {
+    return new Date(this._start);
+  }
+
+  /**
+   * Length of each occurrence
+   */
+  get duration(): DurationInterval {
+    return this._duration;
+  }
+
+  /**
+   * Repeat every n-th frequency unit
+   */
+  get interval(): number {
+    return this._interval;
+  }
+
+  /**
+   * Number of occurrences, undefined if not limited by count
+   */
+  get count(): number | undefined {
+    return this._count;
+  }
+
+  /**
+   * Latest occurrence start, undefined if not limited by date
+   */
+  get until(): Date | undefined {
+    return this._until === undefined ? undefined : new Date(this._until);
+  }
+
+  /**
+   * Zone whose wall clock the rule follows
+   */
+  get zone(): string {
+    return this._zone;
+  }
+
+  /**
+   * Lazily expand into occurrence periods, in start order
+   * Unlimited rules never end - stop iterating or use between()
+   */
+  *periods(): IterableIterator<Period> {
+    for (const start of this._starts()) {
+      yield this._period(start);
+    }
+  }
+
+  /**
+   * Iterate occurrence periods (same as periods())
+   */
+  [Symbol.iterator](): IterableIterator<Period> {
+    return this.periods();
+  }
+
+  /**
+   * Occurrences within a window, clipped to it
+   * Occurrences that started before the window but reach into it are included
+   */
+  between(window: Period): Sequence {
+    const periods: Period[] = [];
+    for (const period of this.periods()) {
+      if (period.startTime > window.endTime) {
+        break;
+      }
+      const clipped = period.intersection(window);
+      if (!clipped.isEmpty()) {
+        periods.push(clipped);
+      }
+    }
+    return new Sequence(periods, true);
+  }
+
+  /**
+   * First n occurrence periods
+   */
+  take(n: number): Period[] {
+    const periods: Period[] = [];
+    if (n <= 0) {
+      return periods;
+    }
+    for (const period of this.periods()) {
+      periods.push(period);
+      if (periods.length >= n) {
+        break;
+      }
+    }
+    return periods;
+  }
+
+  /**
+   * RRULE value, e.g. 'FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR'
+   */
+  toRRULE(): string {
+    const parts = [`FREQ=${FREQUENCY_NAMES[this._frequency]}`];
+    if (this._interval !== 1) parts.push(`INTERVAL=${this._interval}`);
+    if (this._count !== undefined) parts.push(`COUNT=${this._count}`);
+    // UNTIL is UTC unless the rule is all-day
+    if (this._until !== undefined) parts.push(`UNTIL=${this._formatDate(this._until, !this._allDay)}`);
+    if (this._byDay.length) {
+      parts.push(`BYDAY=${this._byDay.map(day => `${day.nth ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+    }
+    if (this._byMonthDay.length) parts.push(`BYMONTHDAY=${this._byMonthDay.join(',')}`);
+    if (this._bySetPos.length) parts.push(`BYSETPOS=${this._bySetPos.join(',')}`);
+    return parts.join(';');
+  }
+
+  /**
+   * iCalendar lines DTSTART, DURATION, RRULE and EXDATE (newline separated)
+   * parse() reads the result back into an equal rule
+   */
+  toString(): string {
+    const lines = [
+      this._dateProperty('DTSTART', [this._start]),
+      `DURATION:${this._duration.toISO8601()}`,
+      `RRULE:${this.toRRULE()}`
+    ];
+    if (this._exdates.size) {
+      lines.push(this._dateProperty('EXDATE', [...this._exdates].sort((a, b) => a - b)));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Occurrence starts in time order: COUNT is applied before EXDATE removes occurrences
+   */
+  private *_starts(): IterableIterator<number> {
+    let remaining = this._count ?? Infinity;
+
+    for (let unit = 0; remaining > 0; unit++) {
+      const frame = this._frame(unit);
+      if (frame.startTime > MAX_TIMESTAMP) {
+        return;
+      }
+
+      for (const date of this._candidates(frame)) {
+        const start = this._wallTime(date);
+        if (start < this._start) {
+          continue;
+        }
+        if (this._until !== undefined && start > this._until) {
+          return;
+        }
+        if (!this._exdates.has(start)) {
+          yield start;
+        }
+        if (--remaining === 0) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Calendar dates (midnight UTC) covered by the n-th frequency unit of the rule
+   */
+  private _frame(unit: number): Period {
+    const first = new Date(this._startDate);
+    const offset = unit * this._interval;
+
+    switch (this._frequency) {
+      case Frequency.Daily:
+        return PeriodConstructors.fromTimestamps(this._startDate + offset * DAY_MS, this._startDate + (offset + 1) * DAY_MS);
+      case Frequency.Weekly: {
+        // ISO week of the start: the week's Thursday decides the year
+        const thursday = this._startDate + (4 - (first.getUTCDay() || 7)) * DAY_MS;
+        const isoYear = new Date(thursday).getUTCFullYear();
+        const isoWeek = Math.floor((thursday - Date.UTC(isoYear, 0, 1)) / (7 * DAY_MS)) + 1;
+        return PeriodConstructors.fromWeek(isoYear, isoWeek + offset);
+      }
+      case Frequency.Monthly:
+        return PeriodConstructors.fromMonth(first.getUTCFullYear(), first.getUTCMonth() + 1 + offset);
+      default:
+        return PeriodConstructors.fromYear(first.getUTCFullYear() + offset);
+    }
+  }
+
+  /**
+   * Matching calendar dates within a frequency unit, after BYSETPOS
+   */
+  private _candidates(frame: Period): number[] {
+    const dates: number[] = [];
+    for (let date = frame.startTime; date < frame.endTime; date += DAY_MS) {
+      if (this._matches(date)) {
+        dates.push(date);
+      }
+    }
+
+    if (!this._bySetPos.length) {
+      return dates;
+    }
+    const selected = new Set<number>();
+    for (const position of this._bySetPos) {
+      const date = dates[position > 0 ? position - 1 : dates.length + position];
+      if (date !== undefined) {
+        selected.add(date);
+      }
+    }
+    return [...selected].sort((a, b) => a - b);
+  }
+
+  /**
+   * Check a calendar date against the BYxxx parts
+   * Without any, the date has to repeat the start's weekday, day of month or day of year
+   */
+  private _matches(date: number): boolean {
+    const d = new Date(date);
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth();
+    const day = d.getUTCDate();
+    const weekday = d.getUTCDay();
+    const monthLength = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    if (this._byMonthDay.length && !this._byMonthDay.some(n => (n > 0 ? n : monthLength + n + 1) === day)) {
+      return false;
+    }
+
+    if (this._byDay.length) {
+      return this._byDay.some(rule => rule.weekday === weekday && (rule.nth === undefined || this._isNth(d, rule.nth, monthLength)));
+    }
+
+    if (this._byMonthDay.length) {
+      return true;
+    }
+
+    const first = new Date(this._startDate);
+    switch (this._frequency) {
+      case Frequency.Daily:
+        return true;
+      case Frequency.Weekly:
+        return weekday === first.getUTCDay();
+      case Frequency.Monthly:
+        return day === first.getUTCDate();
+      default:
+        return month === first.getUTCMonth() && day === first.getUTCDate();
+    }
+  }
+
+  /**
+   * Check that a date is the n-th of its weekday within its month (Monthly) or year (Yearly)
+   */
+  private _isNth(d: Date, nth: number, monthLength: number): boolean {
+    let position: number;
+    let length: number;
+    if (this._frequency === Frequency.Monthly) {
+      position = d.getUTCDate();
+      length = monthLength;
+    } else {
+      const year = d.getUTCFullYear();
+      position = (d.getTime() - Date.UTC(year, 0, 1)) / DAY_MS + 1;
+      length = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+    }
+    return nth > 0 ? Math.ceil(position / 7) === nth : Math.ceil((length - position + 1) / 7) === -nth;
+  }
+
+  /**
+   * Occurrence start on a calendar date at the rule's time of day
+   */
+  private _wallTime(date: number): number {
+    if (TimeZone.isUTC(this._zone)) {
+      return date + this._timeOfDay;
+    }
+    const d = new Date(date);
+    return TimeZone.fromWallTime(this._zone, d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0, this._timeOfDay);
+  }
+
+  /**
+   * Occurrence period starting at a timestamp
+   */
+  private _period(start: number): Period {
+    return new Period(start, this._duration.addTo(start, this._zone), this._bounds, { precision: this._precision, zone: this._zone });
+  }
+
+  /**
+   * All-day rules start at midnight UTC and last whole days - written as iCalendar dates
+   */
+  private get _allDay(): boolean {
+    return this._precision === Precision.Day && TimeZone.isUTC(this._zone);
+  }
+
+  /**
+   * Date property line with the parameters matching how its values are written
+   */
+  private _dateProperty(name: string, timestamps: readonly number[]): string {
+    const params = this._allDay ? ';VALUE=DATE' : TimeZone.isUTC(this._zone) ? '' : `;TZID=${this._zone}`;
+    return `${name}${params}:${timestamps.map(timestamp => this._formatDate(timestamp, false)).join(',')}`;
+  }
+
+  /**
+   * Format as iCalendar DATE (all-day), UTC DATE-TIME or local DATE-TIME in the rule's zone
+   */
+  private _formatDate(timestamp: number, utc: boolean): string {
+    if (this._allDay) {
+      return ICalendarFormat.formatDate(timestamp);
+    }
+    return ICalendarFormat.formatDateTime(timestamp, utc ? 'UTC' : this._zone);
+  }
+
+  /**
+   * Check the rule for combinations RFC 5545 does not allow
+   */
+  private _validate(): void {
+    const isInteger = (value: number) => Number.isInteger(value) && value !== 0;
+
+    if (!Number.isInteger(this._interval) || this._interval < 1) {
+      throw new Error('Interval must be a positive integer');
+    }
+    if (this._count !== undefined && (!Number.isInteger(this._count) || this._count < 1)) {
+      throw new Error('Count must be a positive integer');
+    }
+    if (this._count !== undefined && this._until !== undefined) {
+      throw new Error('Count and until cannot be combined');
+    }
+    if (this._byMonthDay.some(day => !isInteger(day) || Math.abs(day) > 31)) {
+      throw new Error('Month days must be between 1 and 31 or -31 and -1');
+    }
+    if (this._byMonthDay.length && this._frequency === Frequency.Weekly) {
+      throw new Error('Month days cannot be used with a weekly frequency');
+    }
+    for (const { nth } of this._byDay) {
+      if (nth === undefined) continue;
+      if (this._frequency !== Frequency.Monthly && this._frequency !== Frequency.Yearly) {
+        throw new Error('Numbered weekdays need a monthly or yearly frequency');
+      }
+      if (!isInteger(nth) || Math.abs(nth) > (this._frequency === Frequency.Monthly ? 5 : 53)) {
+        throw new Error(`Invalid weekday occurrence: ${nth}`);
+      }
+    }
+    if (this._bySetPos.some(position => !isInteger(position) || Math.abs(position) > 366)) {
+      throw new Error('Set positions must be between 1 and 366 or -366 and -1');
+    }
+    if (this._bySetPos.length && !this._byDay.length && !this._byMonthDay.length) {
+      throw new Error('Set positions need weekdays or month days to select from');
+    }
+  }
+
+  /**
+   * Parse the parts of an RRULE value
+   */
+  private static _parseRule(rule: string, zone: string): Omit<RecurrenceOptions, 'start'> {
+    const value = rule.replace(/^RRULE:/i, '');
+    const options: { -readonly [K in keyof RecurrenceOptions]?: RecurrenceOptions[K] } = {};
+    const integers = (list: string) => list.split(',').map(RecurrenceRule._parseInteger);
+
+    for (const part of value.split(';')) {
+      const [key, rawValue = ''] = part.split('=');
+      const partValue = rawValue.toUpperCase();
+      switch (key.toUpperCase()) {
+        case 'FREQ': {
+          const frequency = FREQUENCY_NAMES.indexOf(partValue);
+          if (frequency === -1) {
+            throw new Error(`Unsupported frequency: ${rawValue}`);
+          }
+          options.frequency = frequency;
+          break;
+        }
+        case 'INTERVAL':
+          options.interval = RecurrenceRule._parseInteger(partValue);
+          break;
+        case 'COUNT':
+          options.count = RecurrenceRule._parseInteger(partValue);
+          break;
+        case 'UNTIL':
+          options.until = ICalendarFormat.parseDate(partValue, zone);
+          break;
+        case 'BYDAY':
+          options.byDay = partValue.split(',').map(RecurrenceRule._parseWeekday);
+          break;
+        case 'BYMONTHDAY':
+          options.byMonthDay = integers(partValue);
+          break;
+        case 'BYSETPOS':
+          options.bySetPos = integers(partValue);
+          break;
+        case 'WKST':
+          // Weeks start on Monday (ISO weeks), the RFC default
+          if (partValue !== 'MO') {
+            throw new Error(`Unsupported week start: ${rawValue}`);
+          }
+          break;
+        default:
+          throw new Error(`Unsupported RRULE part: ${key}`);
+      }
+    }
+
+    if (options.frequency === undefined) {
+      throw new Error(`Missing FREQ in RRULE: ${rule}`);
+    }
+    return options as Omit<RecurrenceOptions, 'start'>;
+  }
+
+  /**
+   * Parse a BYDAY entry such as 'MO', '2TU' or '-1FR'
+   */
+  private static _parseWeekday(entry: string): WeekdayRule {
+    const match = BYDAY_ENTRY.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid BYDAY entry: ${entry}`);
+    }
+    const weekday: Weekday = WEEKDAY_CODES.indexOf(match[2]);
+    return match[1] ? { weekday, nth: parseInt(match[1], 10) } : { weekday };
+  }
+
+  /**
+   * Parse a signed integer, rejecting anything else
+   */
+  private static _parseInteger(value: string): number {
+    if (!/^[+-]?\d+$/.test(value)) {
+      throw new Error(`Invalid integer in RRULE: ${value}`);
+    }
+    return parseInt(value, 10);
+  }
+
+  /**
+   * Timestamp of a date input; strings without an offset are wall-clock time in the zone
+   */
+  private static _timestamp(date: Date | string | number, zone: string): number {
+    return typeof date === 'number' ? date : typeof date === 'string' ? TimeZone.parse(date, zone) : date.getTime();
+  }
+}
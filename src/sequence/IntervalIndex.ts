@@ -0,0 +1,141 @@
+/**
+ * Static interval index for stabbing and range queries on a Sequence
+ * Implicit balanced tree over periods sorted by start time, augmented with the
+ * latest end time of each subtree: O(n) to build, O(log n + k) per query
+ */
+
+import { Period } from '../core/Period';
+import { AllenRelation } from '../core/types';
+import { PeriodSettings } from '../core/PeriodSettings';
+
+// Truncation and discrete canonicalization move endpoints by at most one unit (a 25-hour DST day)
+const SLACK_MS = 2 * 86400000;
+
+// Relations of a period lying inside a window
+const WITHIN_RELATIONS: ReadonlySet<AllenRelation> = new Set<AllenRelation>(['starts', 'during', 'finishes', 'equals']);
+
+export class IntervalIndex<P extends Period> {
+  private readonly _periods: readonly P[];
+  // Flat timestamp arrays for cache-friendly traversal
+  private readonly _starts: Float64Array;
+  private readonly _maxEnds: Float64Array;
+
+  /**
+   * Build the index - periods must be sorted by start time
+   */
+  constructor(periods: readonly P[]) {
+    const length = periods.length;
+    this._periods = periods;
+    this._starts = new Float64Array(length);
+    this._maxEnds = new Float64Array(length);
+
+    for (let i = 0; i < length; i++) {
+      this._starts[i] = periods[i].startTime;
+    }
+    this._build(0, length - 1);
+  }
+
+  /**
+   * Periods containing a date, in start order
+   */
+  at(timestamp: number): P[] {
+    const candidates: P[] = [];
+    this._search(0, this._periods.length - 1, timestamp - SLACK_MS, timestamp, candidates);
+    return candidates.filter(period => period.containsDate(timestamp));
+  }
+
+  /**
+   * Periods overlapping a period, in start order
+   */
+  overlapping(period: Period): P[] {
+    const candidates: P[] = [];
+    this._search(0, this._periods.length - 1, period.startTime - SLACK_MS, period.endTime + SLACK_MS, candidates);
+    return candidates.filter(candidate => candidate.overlaps(period));
+  }
+
+  /**
+   * Periods lying inside a window (bounds-aware subset), in start order
+   * Only periods starting within the window are examined
+   */
+  containedIn(window: Period): P[] {
+    const result: P[] = [];
+    const last = window.endTime + SLACK_MS;
+
+    for (let i = this._lowerBound(window.startTime - SLACK_MS); i < this._periods.length && this._starts[i] <= last; i++) {
+      const period = this._periods[i];
+      if (IntervalIndex._isWithin(period, window)) {
+        result.push(period);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Fill the latest end time of each subtree, rooted at the middle of [lo, hi]
+   */
+  private _build(lo: number, hi: number): number {
+    if (lo > hi) {
+      return -Infinity;
+    }
+
+    const mid = (lo + hi) >>> 1;
+    const maxEnd = Math.max(this._periods[mid].endTime, this._build(lo, mid - 1), this._build(mid + 1, hi));
+    this._maxEnds[mid] = maxEnd;
+    return maxEnd;
+  }
+
+  /**
+   * In-order collection of periods with start <= end and endTime >= start
+   */
+  private _search(lo: number, hi: number, start: number, end: number, out: P[]): void {
+    if (lo > hi) {
+      return;
+    }
+
+    const mid = (lo + hi) >>> 1;
+    // Nothing in this subtree ends late enough
+    if (this._maxEnds[mid] < start) {
+      return;
+    }
+
+    this._search(lo, mid - 1, start, end, out);
+
+    // Everything from here on starts too late
+    if (this._starts[mid] > end) {
+      return;
+    }
+
+    const period = this._periods[mid];
+    if (period.endTime >= start) {
+      out.push(period);
+    }
+    this._search(mid + 1, hi, start, end, out);
+  }
+
+  /**
+   * First index whose start time is at or after the timestamp
+   */
+  private _lowerBound(timestamp: number): number {
+    let lo = 0;
+    let hi = this._starts.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this._starts[mid] < timestamp) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+
+  /**
+   * Subset test; discrete semantics compare covered units via contains()
+   */
+  private static _isWithin(period: Period, window: Period): boolean {
+    if (PeriodSettings.discrete) {
+      return window.contains(period);
+    }
+    return WITHIN_RELATIONS.has(period.relation(window));
+  }
+}
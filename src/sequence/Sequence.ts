@@ -1,32 +1,206 @@
 /**
  * High-performance Sequence class for managing collections of Period instances
- * Optimized for large datasets with efficient gap analysis and set operations
+ * Optimized for large datasets with efficient gap analysis and set operations.
+ * Generic over the period type, so TaggedPeriod payloads travel through every operation
  */
 
-import { Period } from '../core/Period';
+import { Period, TaggedPeriod, PayloadCombiner, PayloadOf } from '../core/Period';
+import { FastBounds, BOUNDS_BITS, BOUNDS_MASKS } from '../core/FastBounds';
+import { IntervalIndex } from './IntervalIndex';
+import { Bounds, Semantics, JSONUtils, JSON_SCHEMA_VERSION, PeriodJSON, PeriodOptions, Weekday } from '../core/types';
+import { PeriodSettings } from '../core/PeriodSettings';
+import { TimeZone } from '../core/TimeZone';
+import { ICalendar, ICSExportOptions, ICSImportOptions } from '../ical/ICalendar';
+import { PeriodConstructors, RepeatingOptions } from '../constructors/PeriodConstructors';
+import { DurationInterval } from '../duration/DurationInterval';
 
-export class Sequence implements Iterable<Period> {
-  private readonly _periods: readonly Period[];
+/**
+ * Two overlapping periods found by conflict detection
+ */
+export interface Conflict<P extends Period = Period, Q extends Period = P> {
+  /** Positions of both periods (for conflictsWith: in this sequence, then in the other) */
+  readonly indices: readonly [number, number];
+  readonly periods: readonly [P, Q];
+  /** Part of time both periods cover */
+  readonly intersection: Period;
+}
+
+/**
+ * Wire format of a Sequence (schema version 1)
+ * Periods keep the sequence order; each one is a Period or TaggedPeriod wire object
+ */
+export interface SequenceJSON {
+  readonly type: 'Sequence';
+  readonly version: number;
+  readonly periods: readonly PeriodJSON[];
+}
+
+/**
+ * Calendar unit of the built-in groupBy buckets (weeks are ISO weeks starting on Monday)
+ */
+export type CalendarUnit = 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Options for grouping periods into calendar buckets
+ */
+export interface GroupOptions {
+  /** IANA time zone of the buckets (defaults to the zone of each period) */
+  readonly zone?: string;
+}
+
+/**
+ * Where free slots may start: midnight of a weekday, or the start of a day or calendar unit
+ */
+export type SlotAlignment = Weekday | 'day' | CalendarUnit;
+
+/**
+ * Constraints for the free-slot search
+ * Example: { within: Period.fromQuarter(2024, 3), minLength: DurationInterval.fromDays(5), alignTo: Weekday.Monday, limit: 1 }
+ */
+export interface SlotOptions {
+  /** Bounded window to search */
+  readonly within: Period;
+  /** Shortest acceptable slot (calendar-aware) */
+  readonly minLength?: DurationInterval;
+  /** Longest slot; longer free stretches are cut into consecutive slots of this length */
+  readonly maxLength?: DurationInterval;
+  /** Slots start only at these instants, in the zone of the window */
+  readonly alignTo?: SlotAlignment;
+  /** Earliest slot start */
+  readonly after?: Date | string | number;
+  /** Maximum number of slots returned (defaults to all) */
+  readonly limit?: number;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Bucket of a calendar unit containing a timestamp, built with the calendar constructors
+ */
+function calendarBucket(unit: CalendarUnit, time: number, zone: string): Period {
+  const date = new Date(TimeZone.calendarDate(time, zone));
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit) {
+    case 'week': {
+      // The Thursday of an ISO week decides its year
+      const thursday = new Date(date.getTime() + (3 - (date.getUTCDay() + 6) % 7) * DAY_MS);
+      const weekYear = thursday.getUTCFullYear();
+      const week = Math.floor((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)) + 1;
+      return PeriodConstructors.fromWeek(weekYear, week, { zone });
+    }
+    case 'month':
+      return PeriodConstructors.fromMonth(year, month + 1, { zone });
+    case 'quarter':
+      return PeriodConstructors.fromQuarter(year, Math.floor(month / 3) + 1, { zone });
+    case 'year':
+      return PeriodConstructors.fromYear(year, { zone });
+    default:
+      throw new Error(`Invalid calendar unit: ${String(unit)}`);
+  }
+}
+
+/**
+ * First instant at or after a timestamp where a slot may start
+ */
+function alignUp(time: number, alignTo: SlotAlignment, zone: string): number {
+  const date = TimeZone.calendarDate(time, zone);
+  const midnight = TimeZone.midnightOf(date, zone);
+  if (alignTo === 'day') {
+    return midnight < time ? TimeZone.midnightOf(date + DAY_MS, zone) : time;
+  }
+  if (typeof alignTo === 'number') {
+    const days = (alignTo - new Date(date).getUTCDay() + 7) % 7;
+    return TimeZone.midnightOf(date + (days === 0 && midnight < time ? 7 : days) * DAY_MS, zone);
+  }
+  const bucket = calendarBucket(alignTo, time, zone);
+  return bucket.startTime === time ? time : bucket.endTime;
+}
+
+/**
+ * Start order; on equal starts an included start comes first, so merging meets [a, a] before (a, b]
+ */
+function byStart(a: Period, b: Period): number {
+  return a.startTime - b.startTime || Number(FastBounds.isStartInclusive(b.bounds)) - Number(FastBounds.isStartInclusive(a.bounds));
+}
+
+// Sweep-line entry: position in the sequence plus the endpoints the sweep orders by
+interface SweepEntry {
+  readonly index: number;
+  readonly start: number;
+  readonly end: number;
+}
+
+// Coverage at every distinct endpoint: at the instant itself and on the open stretch right after it
+interface SweepResult {
+  readonly times: number[];
+  readonly at: number[];
+  readonly after: number[];
+}
+
+// Position in the start- or end-sorted periods of one input of the k-way sweep
+interface SweepCursor {
+  readonly periods: readonly Period[];
+  readonly input: number;
+  readonly isEnd: boolean;
+  position: number;
+}
+
+/**
+ * Time of the event a cursor points at
+ */
+function cursorTime(cursor: SweepCursor): number {
+  const period = cursor.periods[cursor.position];
+  return cursor.isEnd ? period.endTime : period.startTime;
+}
+
+/**
+ * Restore the min-heap order below a position (binary heap keyed by cursor time)
+ */
+function siftDown(heap: SweepCursor[], position: number): void {
+  const cursor = heap[position];
+  const time = cursorTime(cursor);
+  for (;;) {
+    let child = 2 * position + 1;
+    if (child >= heap.length) break;
+    if (child + 1 < heap.length && cursorTime(heap[child + 1]) < cursorTime(heap[child])) child++;
+    if (cursorTime(heap[child]) >= time) break;
+    heap[position] = heap[child];
+    position = child;
+  }
+  heap[position] = cursor;
+}
+
+export class Sequence<P extends Period = Period> implements Iterable<P> {
+  private readonly _periods: readonly P[];
   private readonly _sorted: boolean;
   
   // Aggressive caching for performance optimization
   private _boundaries?: Period;
   private _gaps?: Sequence;
   private _totalDuration?: number;
-  private _sortedByStart?: Period[];
-  private _sortedByEnd?: Period[];
-  private _sortedByDuration?: Period[];
+  private _depth?: Sequence<TaggedPeriod<number>>;
+  private _maxDepth?: number;
+  private _sortedByStart?: P[];
+  private _sortedByEnd?: P[];
+  private _sortedByDuration?: P[];
   private _isEmpty?: boolean;
+  // Whether any period is empty (set operations leave those out)
+  private _hasEmpty?: boolean;
   private _count?: number;
+  // Lazily built on the first stabbing or range query
+  private _index?: IntervalIndex<P>;
   
   // Cache invalidation hash to detect changes
   private _cacheHash?: string;
+  // Semantics the semantic-dependent caches (gaps, total duration, depth) were computed under
+  private _cacheSemantics?: Semantics;
 
-  constructor(periods: Period[], preserveOrder: boolean);
-  constructor(...periods: Period[]);
-  constructor(periodsOrFirst?: Period[] | Period, preserveOrderOrSecond?: boolean | Period, ...rest: Period[]) {
+  constructor(periods: P[], preserveOrder: boolean);
+  constructor(...periods: P[]);
+  constructor(periodsOrFirst?: P[] | P, preserveOrderOrSecond?: boolean | P, ...rest: P[]) {
     // Handle overloaded constructor
-    let periods: Period[];
+    let periods: P[];
     let shouldSort = true;
     
     if (Array.isArray(periodsOrFirst) && typeof preserveOrderOrSecond === 'boolean') {
@@ -37,7 +211,7 @@ export class Sequence implements Iterable<Period> {
       // Second overload: constructor(...periods: Period[])
       const allPeriods = [periodsOrFirst];
       if (typeof preserveOrderOrSecond !== 'boolean') {
-        allPeriods.push(preserveOrderOrSecond as Period);
+        allPeriods.push(preserveOrderOrSecond as P);
       }
       allPeriods.push(...rest);
       periods = allPeriods.filter(p => p !== undefined);
@@ -56,13 +230,13 @@ export class Sequence implements Iterable<Period> {
 
     if (shouldSort) {
       // Sort periods by start time for performance optimization
-      const sortedPeriods = [...periods].sort((a, b) => a.startTime - b.startTime);
+      const sortedPeriods = [...periods].sort(byStart);
       this._periods = Object.freeze(sortedPeriods);
       this._sorted = true;
     } else {
       // Preserve the order passed in (for custom sorting)
       this._periods = Object.freeze([...periods]);
-      this._sorted = false;
+      this._sorted = periods.every((period, i) => i === 0 || byStart(periods[i - 1], period) <= 0);
     }
   }
 
@@ -70,16 +244,45 @@ export class Sequence implements Iterable<Period> {
    * Create sequence from array of periods
    * Optimized constructor for better performance with large arrays
    */
-  static fromArray(periods: Period[]): Sequence {
+  static fromArray<P extends Period>(periods: P[]): Sequence<P> {
     return new Sequence(periods, false); // Use array constructor directly - no spread operator limits!
   }
 
+  /**
+   * Read the events of iCalendar (.ics) text, expanding recurring events
+   * Example: Sequence.fromICS(text, { window: Period.fromYear(2024) })
+   */
+  static fromICS(text: string, options?: ICSImportOptions): Sequence {
+    return new Sequence(ICalendar.fromICS(text, options), true);
+  }
+
+  /**
+   * Expand a repeating ISO 8601 interval such as 'R12/2024-01-01/P1M' into consecutive periods
+   * Unbounded repetitions ('R/...') need a window, which also clips the periods
+   */
+  static fromISORepeating(iso: string, options?: RepeatingOptions): Sequence {
+    return new Sequence(PeriodConstructors.repeating(iso, options), true);
+  }
+
+  /**
+   * Rebuild a sequence from its wire format (object or JSON text), keeping the period order
+   * Periods already revived by a JSON.parse reviver are taken as they are
+   */
+  static fromJSON<P extends Period = Period>(input: SequenceJSON | string): Sequence<P> {
+    const json = JSONUtils.read(input, ['Sequence']);
+    if (!Array.isArray(json.periods)) {
+      throw new Error('Invalid Sequence JSON: periods must be an array');
+    }
+    const periods = json.periods.map(period => (period instanceof Period ? period : Period.fromJSON(period)) as P);
+    return new Sequence(periods, true);
+  }
+
   /**
    * Create empty sequence
    * Optimized for common use case
    */
-  static empty(): Sequence {
-    return new Sequence();
+  static empty<P extends Period = Period>(): Sequence<P> {
+    return new Sequence<P>();
   }
 
   /**
@@ -108,7 +311,7 @@ export class Sequence implements Iterable<Period> {
    * Get period by index
    * O(1) operation with bounds checking
    */
-  get(index: number): Period {
+  get(index: number): P {
     if (index < 0 || index >= this._periods.length) {
       throw new Error(`Index ${index} out of bounds. Sequence has ${this._periods.length} periods.`);
     }
@@ -119,7 +322,7 @@ export class Sequence implements Iterable<Period> {
    * Get first period
    * O(1) operation
    */
-  first(): Period | undefined {
+  first(): P | undefined {
     return this._periods[0];
   }
 
@@ -127,7 +330,7 @@ export class Sequence implements Iterable<Period> {
    * Get last period
    * O(1) operation
    */
-  last(): Period | undefined {
+  last(): P | undefined {
     return this._periods[this._periods.length - 1];
   }
 
@@ -135,7 +338,7 @@ export class Sequence implements Iterable<Period> {
    * Convert to array
    * Returns a copy to maintain immutability
    */
-  toArray(): Period[] {
+  toArray(): P[] {
     return [...this._periods];
   }
 
@@ -143,7 +346,7 @@ export class Sequence implements Iterable<Period> {
    * Iterator implementation for for...of loops
    * Enables: for (const period of sequence) { ... }
    */
-  [Symbol.iterator](): IterableIterator<Period> {
+  [Symbol.iterator](): IterableIterator<P> {
     return this._periods[Symbol.iterator]();
   }
 
@@ -172,7 +375,7 @@ export class Sequence implements Iterable<Period> {
         }
       }
       
-      this._boundaries = new Period(earliestStart, latestEnd, first.bounds);
+      this._boundaries = first._plain(earliestStart, latestEnd);
     }
 
     return this._boundaries;
@@ -184,6 +387,7 @@ export class Sequence implements Iterable<Period> {
    * Highly optimized algorithm with O(n) complexity
    */
   gaps(): Sequence {
+    this._syncSemantics();
     if (this._gaps) {
       return this._gaps;
     }
@@ -194,16 +398,16 @@ export class Sequence implements Iterable<Period> {
     }
 
     const gaps: Period[] = [];
+    const periods = this._sortedOperands();
     
     // Iterate through adjacent periods to find gaps
-    for (let i = 0; i < this._periods.length - 1; i++) {
-      const current = this._periods[i];
-      const next = this._periods[i + 1];
+    for (let i = 0; i < periods.length - 1; i++) {
+      const current = periods[i];
+      const next = periods[i + 1];
       
-      // Check if there's a gap between current and next period
-      if (!current.overlaps(next) && !current.touches(next)) {
-        // Create gap period using the end of current and start of next
-        const gap = new Period(current.endTime, next.startTime, current.bounds);
+      // Check if there's a gap between current and next period (bounds-aware)
+      const gap = current.gap(next);
+      if (gap) {
         gaps.push(gap);
       }
     }
@@ -212,11 +416,129 @@ export class Sequence implements Iterable<Period> {
     return this._gaps;
   }
 
+  /**
+   * Find every uncovered part of a window, including the head and tail slack
+   * Unlike gaps(), works on overlapping and unmerged periods; periods reaching
+   * outside the window are clipped to it
+   */
+  complement(within: Period): Sequence {
+    return new Sequence(within).subtract(this);
+  }
+
+  /**
+   * Coverage depth as a step function (cached)
+   * Sub-periods in time order, each tagged with how many periods cover it; uncovered stretches are left out
+   * Complexity: O(n log n) sweep-line over the sorted periods
+   */
+  depth(): Sequence<TaggedPeriod<number>> {
+    this._syncSemantics();
+    if (!this._depth) {
+      this._depth = this._computeDepth();
+    }
+    return this._depth;
+  }
+
+  /**
+   * Highest number of periods covering the same point (cached)
+   * Counts shared instants too, so [Jan 1, Jan 5] and [Jan 5, Jan 9] reach 2
+   */
+  maxDepth(): number {
+    this._syncSemantics();
+    if (this._maxDepth === undefined) {
+      const { at, after } = this._sweep();
+      let max = 0;
+      for (let i = 0; i < at.length; i++) {
+        if (at[i] > max) max = at[i];
+        if (after[i] > max) max = after[i];
+      }
+      this._maxDepth = max;
+    }
+    return this._maxDepth;
+  }
+
+  /**
+   * Parts covered by at least k periods, merged into plain periods
+   */
+  periodsWithDepthAtLeast(k: number): Sequence {
+    return this._depthWhere(depth => depth >= k);
+  }
+
+  /**
+   * Parts covered by more periods than the capacity allows (overbooking), merged into plain periods
+   */
+  whereDepthExceeds(capacity: number): Sequence {
+    return this._depthWhere(depth => depth > capacity);
+  }
+
+  /**
+   * Find every pair of overlapping periods, e.g. double bookings
+   * Sweep-line over the start-sorted periods: O(n log n + k) for k conflicts
+   * @returns Conflicts with the lower index first, ordered by index
+   */
+  conflicts(): Conflict<P>[] {
+    const conflicts: Conflict<P>[] = [];
+    const active: SweepEntry[] = [];
+
+    for (const entry of this._sweepEntries()) {
+      Sequence._evict(active, entry.start);
+      for (const other of active) {
+        const [first, second] = other.index < entry.index ? [other.index, entry.index] : [entry.index, other.index];
+        const conflict = Sequence._conflict(first, this._periods[first], second, this._periods[second]);
+        if (conflict) {
+          conflicts.push(conflict);
+        }
+      }
+      active.push(entry);
+    }
+
+    return conflicts.sort((a, b) => a.indices[0] - b.indices[0] || a.indices[1] - b.indices[1]);
+  }
+
+  /**
+   * Find every pair of overlapping periods across two sequences
+   * Sweep-line over both start orders at once: O((n + m) log(n + m) + k) for k conflicts
+   * @returns Conflicts as [index in this, index in other], ordered by index
+   */
+  conflictsWith<Q extends Period>(other: Sequence<Q>): Conflict<P, Q>[] {
+    const conflicts: Conflict<P, Q>[] = [];
+    const mine = this._sweepEntries();
+    const theirs = other._sweepEntries();
+    const activeMine: SweepEntry[] = [];
+    const activeTheirs: SweepEntry[] = [];
+
+    let i = 0, j = 0;
+    while (i < mine.length || j < theirs.length) {
+      if (j >= theirs.length || (i < mine.length && mine[i].start <= theirs[j].start)) {
+        const entry = mine[i++];
+        Sequence._evict(activeTheirs, entry.start);
+        for (const candidate of activeTheirs) {
+          const conflict = Sequence._conflict(entry.index, this._periods[entry.index], candidate.index, other._periods[candidate.index]);
+          if (conflict) {
+            conflicts.push(conflict);
+          }
+        }
+        activeMine.push(entry);
+      } else {
+        const entry = theirs[j++];
+        Sequence._evict(activeMine, entry.start);
+        for (const candidate of activeMine) {
+          const conflict = Sequence._conflict(candidate.index, this._periods[candidate.index], entry.index, other._periods[entry.index]);
+          if (conflict) {
+            conflicts.push(conflict);
+          }
+        }
+        activeTheirs.push(entry);
+      }
+    }
+
+    return conflicts.sort((a, b) => a.indices[0] - b.indices[0] || a.indices[1] - b.indices[1]);
+  }
+
   /**
    * Filter periods based on predicate
    * Returns new Sequence with matching periods
    */
-  filter(predicate: (period: Period, index: number) => boolean): Sequence {
+  filter(predicate: (period: P, index: number) => boolean): Sequence<P> {
     const filtered = this._periods.filter(predicate);
     return new Sequence(...filtered);
   }
@@ -225,28 +547,28 @@ export class Sequence implements Iterable<Period> {
    * Map periods to new values
    * Returns array of mapped values
    */
-  map<T>(mapper: (period: Period, index: number) => T): T[] {
+  map<T>(mapper: (period: P, index: number) => T): T[] {
     return this._periods.map(mapper);
   }
 
   /**
    * Check if any period matches the predicate
    */
-  some(predicate: (period: Period, index: number) => boolean): boolean {
+  some(predicate: (period: P, index: number) => boolean): boolean {
     return this._periods.some(predicate);
   }
 
   /**
    * Check if all periods match the predicate
    */
-  every(predicate: (period: Period, index: number) => boolean): boolean {
+  every(predicate: (period: P, index: number) => boolean): boolean {
     return this._periods.every(predicate);
   }
 
   /**
    * Find first period matching predicate
    */
-  find(predicate: (period: Period, index: number) => boolean): Period | undefined {
+  find(predicate: (period: P, index: number) => boolean): P | undefined {
     return this._periods.find(predicate);
   }
 
@@ -254,7 +576,7 @@ export class Sequence implements Iterable<Period> {
    * Reduce sequence to a single value
    * Standard array reduce functionality
    */
-  reduce<T>(reducer: (accumulator: T, period: Period, index: number, array: readonly Period[]) => T, initialValue: T): T {
+  reduce<T>(reducer: (accumulator: T, period: P, index: number, array: readonly P[]) => T, initialValue: T): T {
     return this._periods.reduce(reducer, initialValue);
   }
 
@@ -262,7 +584,7 @@ export class Sequence implements Iterable<Period> {
    * Sort sequence by custom comparator
    * Returns new Sequence with sorted periods
    */
-  sort(compareFn?: (a: Period, b: Period) => number): Sequence {
+  sort(compareFn?: (a: P, b: P) => number): Sequence<P> {
     const sorted = [...this._periods].sort(compareFn);
     return new Sequence(sorted, true); // preserveOrder = true to avoid re-sorting
   }
@@ -271,15 +593,15 @@ export class Sequence implements Iterable<Period> {
    * Sort by start date (already optimized as default)
    * Returns this sequence if already sorted by start date
    */
-  sortByStartDate(): Sequence {
-    return this._sorted ? this : this.sort((a, b) => a.startTime - b.startTime);
+  sortByStartDate(): Sequence<P> {
+    return this._sorted ? this : this.sort(byStart);
   }
 
   /**
    * Sort by duration (shortest first)
    * Returns new Sequence sorted by duration
    */
-  sortByDuration(): Sequence {
+  sortByDuration(): Sequence<P> {
     return this.sort((a, b) => {
       const durA = a.endTime - a.startTime;
       const durB = b.endTime - b.startTime;
@@ -291,7 +613,7 @@ export class Sequence implements Iterable<Period> {
    * Check if this sequence equals another sequence
    * Compares all periods for equality
    */
-  equals(other: Sequence): boolean {
+  equals(other: Sequence<Period>): boolean {
     if (this.count() !== other.count()) {
       return false;
     }
@@ -318,18 +640,33 @@ export class Sequence implements Iterable<Period> {
     return `Sequence(${this.count()} periods, ${boundaries?.toString()})`;
   }
 
+  /**
+   * Wire format for JSON.stringify (schema version 1)
+   */
+  toJSON(): SequenceJSON {
+    return { type: 'Sequence', version: JSON_SCHEMA_VERSION, periods: this._periods.map(period => period.toJSON()) };
+  }
+
+  /**
+   * Write as iCalendar (.ics) text with one VEVENT per period
+   * Day-precision periods become all-day events covering the days their bounds include
+   */
+  toICS(options?: ICSExportOptions<P>): string {
+    return ICalendar.toICS(this._periods, options);
+  }
+
   /**
    * Create a union of this sequence with another sequence
    * Combines all periods from both sequences, removing duplicates
    * @param other - The sequence to union with
    * @returns A new sequence containing all unique periods from both sequences
    */
-  union(other: Sequence): Sequence {
+  union<Q extends Period>(other: Sequence<Q>): Sequence<P | Q> {
     if (this.isEmpty()) return other;
     if (other.isEmpty()) return this;
     
     const maxSize = this._periods.length + other._periods.length;
-    const combined = new Array<Period>(maxSize);
+    const combined = new Array<P | Q>(maxSize);
     let writeIndex = 0;
     const seenPeriods = new Set<Period>();
     
@@ -362,32 +699,30 @@ export class Sequence implements Iterable<Period> {
    * Find intersections with another sequence
    * Returns periods that overlap between this sequence and another
    * @param other - The sequence to intersect with
+   * @param combine - Payload of each intersection from both payloads (defaults to this sequence's payload)
    * @returns A new sequence containing only overlapping periods
    */
-  intersect(other: Sequence): Sequence {
+  intersect<Q extends Period>(other: Sequence<Q>, combine?: PayloadCombiner<PayloadOf<P>, PayloadOf<Q>>): Sequence<P> {
     // Fast path for empty sequences
     if (this.isEmpty() || other.isEmpty()) {
       return Sequence.empty();
     }
 
-    const intersections: Period[] = [];
+    const intersections: P[] = [];
     
     // Use two-pointer technique on sorted sequences for O(n + m) complexity
     let i = 0, j = 0;
-    const thisArray = this._periods;
-    const otherArray = other._periods;
+    const thisArray = this._sortedOperands();
+    const otherArray = other._sortedOperands();
     
     while (i < thisArray.length && j < otherArray.length) {
       const thisPeriod = thisArray[i];
       const otherPeriod = otherArray[j];
       
-      // Check for overlap using optimized timestamp comparison
-      const maxStart = Math.max(thisPeriod.startTime, otherPeriod.startTime);
-      const minEnd = Math.min(thisPeriod.endTime, otherPeriod.endTime);
-      
-      if (maxStart < minEnd) {
-        // Periods overlap - create intersection
-        intersections.push(new Period(maxStart, minEnd, thisPeriod.bounds));
+      // Bounds-aware intersection - empty when the periods share no point
+      const intersection = thisPeriod.intersection(otherPeriod);
+      if (!intersection.isEmpty()) {
+        intersections.push(thisPeriod._combine(otherPeriod, intersection, combine) as P);
       }
       
       // Advance the pointer of the period that ends first
@@ -402,72 +737,120 @@ export class Sequence implements Iterable<Period> {
   }
 
   /**
-   * Subtract operation - remove overlapping periods
-   * High-performance implementation with early termination
-   * Complexity: O(n * m) but optimized with early breaks
+   * Set difference - remove the parts of this sequence covered by another sequence
+   * Periods are split around what is removed, with bounds at the cut points
+   * complementing the bounds of the removed periods
+   * Complexity: O(n + m) on the sorted arrays (plus merging the other sequence)
    */
-  subtract(other: Sequence): Sequence {
+  subtract<Q extends Period>(other: Sequence<Q>): Sequence<P> {
     // Fast path for empty sequences
     if (this.isEmpty()) return Sequence.empty();
     if (other.isEmpty()) return this;
     
-    const remaining: Period[] = [];
-    
-    // Pre-filter: only check periods that could potentially overlap
-    const otherBoundaries = other.boundaries();
-    if (!otherBoundaries) return this;
+    const periods = this._sortedOperands();
+    // Merged cutters are disjoint and sorted, so each one ends before the next starts
+    const cutters = other.merge()._sortedOperands();
+    const remaining: P[] = [];
+    let sorted = true;
+    let j = 0;
+
+    const emit = (period: P) => {
+      if (remaining.length > 0 && period.startTime < remaining[remaining.length - 1].startTime) {
+        sorted = false;
+      }
+      remaining.push(period);
+    };
     
-    for (const thisPeriod of this._periods) {
-      // Fast boundary check before expensive overlap tests
-      if (thisPeriod.endTime <= otherBoundaries.startTime || 
-          thisPeriod.startTime >= otherBoundaries.endTime) {
-        // Period is completely outside other sequence bounds
-        remaining.push(thisPeriod);
-        continue;
+    for (const period of periods) {
+      // Cutters ending before this period starts cannot touch any later period either
+      while (j < cutters.length && cutters[j].endTime < period.startTime) {
+        j++;
       }
-      
-      // Check for overlaps with early termination
-      let hasOverlap = false;
-      for (const otherPeriod of other._periods) {
-        // Early termination if other period is past current period
-        if (otherPeriod.startTime >= thisPeriod.endTime) break;
-        
-        if (thisPeriod.overlaps(otherPeriod)) {
-          hasOverlap = true;
-          break;
+
+      let rest: P | null = period;
+      for (let k = j; k < cutters.length && rest; k++) {
+        const cutter = cutters[k];
+        if (cutter.startTime > rest.endTime) break;
+        if (!rest.overlaps(cutter)) continue;
+
+        // Part before the cutter is final - later cutters start after this one ends.
+        // On a shared start the included instant is left when the cutter excludes it
+        if (rest.startTime < cutter.startTime ||
+            (rest.startTime === cutter.startTime && FastBounds.isStartInclusive(rest.bounds) && !FastBounds.isStartInclusive(cutter.bounds))) {
+          emit(rest._derive(rest.startTime, cutter.startTime, FastBounds.headBounds(rest.bounds, cutter.bounds)) as P);
         }
+
+        // Part after the cutter is cut further by the following cutters
+        rest = cutter.endTime < rest.endTime ||
+               (cutter.endTime === rest.endTime && FastBounds.isEndInclusive(rest.bounds) && !FastBounds.isEndInclusive(cutter.bounds))
+          ? rest._derive(cutter.endTime, rest.endTime, FastBounds.tailBounds(cutter.bounds, rest.bounds)) as P
+          : null;
       }
-      
-      if (!hasOverlap) {
-        remaining.push(thisPeriod);
+
+      if (rest) {
+        emit(rest);
       }
     }
     
-    return new Sequence(remaining, true); // preserveOrder = true (maintaining order)
+    // Overlapping input periods can leave pieces out of start order
+    return new Sequence(remaining, sorted);
+  }
+
+  /**
+   * Symmetric difference - the parts covered by exactly one of the two sequences
+   * Both sides are merged first, so the result holds disjoint periods in start order;
+   * pieces from different sides stay separate even when they touch
+   * Complexity: O(n + m) on the sorted arrays
+   */
+  symmetricDifference<Q extends Period>(other: Sequence<Q>): Sequence<P | Q> {
+    if (this.isEmpty()) return other.merge();
+    if (other.isEmpty()) return this.merge();
+
+    const left = this.merge();
+    const right = other.merge();
+    const onlyLeft = left.subtract(right)._periods;
+    const onlyRight = right.subtract(left)._periods;
+
+    // Both sides are sorted and disjoint from each other - a single merge pass keeps them in order
+    const result = new Array<P | Q>(onlyLeft.length + onlyRight.length);
+    let i = 0, j = 0, k = 0;
+    while (i < onlyLeft.length && j < onlyRight.length) {
+      result[k++] = onlyLeft[i].startTime <= onlyRight[j].startTime ? onlyLeft[i++] : onlyRight[j++];
+    }
+    while (i < onlyLeft.length) result[k++] = onlyLeft[i++];
+    while (j < onlyRight.length) result[k++] = onlyRight[j++];
+
+    return new Sequence(result, true); // preserveOrder = true (already sorted)
   }
 
   /**
    * Merge overlapping and consecutive day periods within this sequence
    * Optimized for date-only operations with enhanced boundary logic
    * Complexity: O(n) since periods are already sorted
+   * @param combine - Payload of each merged period from both payloads (defaults to the earlier period's payload)
    */
-  merge(): Sequence {
+  merge(combine?: PayloadCombiner<PayloadOf<P>>): Sequence<P> {
     if (this.isEmpty() || this.count() === 1) {
       return this;
     }
 
-    const merged: Period[] = [];
-    let current = this._periods[0];
+    const periods = this._sortedOperands();
+    if (periods.length === 0) {
+      return Sequence.empty();
+    }
+
+    const merged: P[] = [];
+    let current = periods[0];
 
-    for (let i = 1; i < this._periods.length; i++) {
-      const next = this._periods[i];
+    for (let i = 1; i < periods.length; i++) {
+      const next = periods[i];
       
       // Use the enhanced date-only merging logic
       if (current.overlaps(next) || current.canMergeConsecutiveDays(next)) {
         // Merge periods using the union method which handles date-only logic
         const mergedPeriod = current.union(next);
         if (mergedPeriod) {
-          current = mergedPeriod;
+          current = current._combine(next, mergedPeriod, combine) as P;
         } else {
           // Fallback: shouldn't happen with proper logic, but safety net
           merged.push(current);
@@ -491,9 +874,10 @@ export class Sequence implements Iterable<Period> {
    * Ultra-optimized calculation with memoization
    */
   totalDuration(): number {
+    this._syncSemantics();
     if (this._totalDuration === undefined) {
       let totalMs = 0;
-      const periods = this._periods;
+      const periods = this._operands();
       const len = periods.length;
       
       // Unrolled loop for better performance
@@ -517,13 +901,226 @@ export class Sequence implements Iterable<Period> {
     return this._totalDuration;
   }
 
+  /**
+   * Group periods into calendar buckets (ISO weeks, months, quarters, years) or buckets from a key function
+   * A period crossing bucket boundaries is split, so every bucket holds only the part inside it;
+   * the key function gets an instant and returns the bucket period containing it.
+   * Buckets come in start order, each with a start-ordered sequence
+   * Example: bookings.groupBy('month')
+   */
+  groupBy(unit: CalendarUnit | ((date: Date) => Period), options: GroupOptions = {}): Map<Period, Sequence<P>> {
+    const buckets = new Map<string, { bucket: Period; periods: P[] }>();
+
+    for (const period of this._periods) {
+      if (!period.isBounded()) {
+        throw new Error(`Cannot group an unbounded period: ${period.toString()}`);
+      }
+      const zone = options.zone ?? period.zone;
+      const bucketOf = (time: number): Period => {
+        const bucket = typeof unit === 'function' ? unit(new Date(time)) : calendarBucket(unit, time, zone);
+        if (bucket.startTime > time || bucket.endTime <= time) {
+          throw new Error(`Bucket ${bucket.toString()} does not contain ${new Date(time).toISOString()}`);
+        }
+        return bucket;
+      };
+
+      for (const piece of period._pieces(time => bucketOf(time).endTime)) {
+        const bucket = bucketOf(piece.startTime);
+        const key = bucket.key();
+        const group = buckets.get(key);
+        if (group) {
+          group.periods.push(piece as P);
+        } else {
+          buckets.set(key, { bucket, periods: [piece as P] });
+        }
+      }
+    }
+
+    const groups = [...buckets.values()].sort((a, b) => byStart(a.bucket, b.bucket));
+    return new Map(groups.map(({ bucket, periods }) => [bucket, new Sequence(periods.sort(byStart), true)]));
+  }
+
+  /**
+   * Days booked per calendar bucket, from the split periods of groupBy
+   * Overlapping periods count once each, like totalDuration()
+   * Example: bookings.histogram('month') - Map of month Period to booked days
+   */
+  histogram(unit: CalendarUnit | ((date: Date) => Period), options: GroupOptions = {}): Map<Period, number> {
+    const histogram = new Map<Period, number>();
+    for (const [bucket, periods] of this.groupBy(unit, options)) {
+      histogram.set(bucket, periods.reduce((days, period) => days + period.durationInDays, 0));
+    }
+    return histogram;
+  }
+
+  /**
+   * Free slots in the window, searched in the complement of this sequence, in time order
+   * Each free stretch yields slots from its first aligned instant; with maxLength it is cut into
+   * consecutive slots of that length, each starting at the next aligned instant. Slots shorter than minLength are left out
+   * Example: bookings.findSlots({ within: Period.fromQuarter(2024, 3), minLength: DurationInterval.fromDays(5),
+   *                               maxLength: DurationInterval.fromDays(5), alignTo: Weekday.Monday, limit: 1 })
+   */
+  findSlots(options: SlotOptions): Sequence {
+    const { within, minLength, maxLength, alignTo, after, limit = Infinity } = options;
+    if (!within.isBounded()) {
+      throw new Error(`Slot search needs a bounded window: ${within.toString()}`);
+    }
+    if (minLength && maxLength && minLength.milliseconds > maxLength.milliseconds) {
+      throw new Error(`minLength must not exceed maxLength: ${minLength.toString()} > ${maxLength.toString()}`);
+    }
+
+    const zone = within.zone;
+    const window = after === undefined
+      ? within
+      : within.intersection(PeriodConstructors.from(after, { precision: within.precision, zone }));
+    const slots: Period[] = [];
+
+    for (const free of this.complement(window)) {
+      const bits = BOUNDS_BITS[free.bounds];
+      let start = free.startTime;
+      while (slots.length < limit) {
+        if (alignTo !== undefined) {
+          // An excluded start is not free itself, so the slot starts at the next aligned instant
+          const excluded = start === free.startTime && !(bits & BOUNDS_MASKS.START_INCLUSIVE);
+          start = alignUp(excluded ? start + 1 : start, alignTo, zone);
+        }
+        const end = maxLength ? Math.min(maxLength.addTo(start, zone), free.endTime) : free.endTime;
+        // Later starts in this stretch only get shorter
+        if (end <= start || (minLength && minLength.addTo(start, zone) > end)) {
+          break;
+        }
+        const startBits = start === free.startTime ? bits & BOUNDS_MASKS.START_INCLUSIVE : BOUNDS_MASKS.START_INCLUSIVE;
+        const endBits = end === free.endTime ? bits & BOUNDS_MASKS.END_INCLUSIVE : 0;
+        slots.push(free._derive(start, end, FastBounds.fromBits(startBits | endBits)));
+        start = end;
+      }
+    }
+
+    return new Sequence(slots, true);
+  }
+
+  /**
+   * Free slots common to several sequences, e.g. the calendars of every attendee or resource
+   * Same constraints as findSlots on a single sequence
+   */
+  static findSlots(resources: readonly Sequence<Period>[], options: SlotOptions): Sequence {
+    const busy = resources.reduce<Sequence<Period>>((all, resource) => all.union(resource), Sequence.empty());
+    return busy.findSlots(options);
+  }
+
+  /**
+   * Parts of time covered by every sequence, merged into plain periods
+   * One k-way sweep instead of chaining intersect(); e.g. the days all team members are available
+   */
+  static intersectAll(sequences: readonly Sequence<Period>[]): Sequence {
+    return sequences.length === 0 ? Sequence.empty() : Sequence.atLeast(sequences.length, sequences);
+  }
+
+  /**
+   * Parts of time covered by any sequence, merged into plain periods
+   */
+  static unionAll(sequences: readonly Sequence<Period>[]): Sequence {
+    return Sequence.atLeast(1, sequences);
+  }
+
+  /**
+   * Parts of time covered by at least k of the sequences, merged into plain periods
+   * Overlapping periods within one sequence count once. Single k-way sweep over the start- and
+   * end-sorted periods of all inputs: O(n log n) for n periods in total
+   * Example: Sequence.atLeast(3, availabilities) - when at least three people are free
+   */
+  static atLeast(k: number, sequences: readonly Sequence<Period>[]): Sequence {
+    if (!Number.isInteger(k) || k < 1) {
+      throw new Error(`k must be a positive integer: ${k}`);
+    }
+    const first = sequences.find(sequence => !sequence.isEmpty())?.first();
+    if (!first || k > sequences.length) {
+      return Sequence.empty();
+    }
+
+    const segments = Sequence._segments(Sequence._multiSweep(sequences), { precision: first.precision, zone: first.zone });
+    return new Sequence(segments.filter(segment => segment.payload >= k).map(segment => segment.toPeriod()), true).merge();
+  }
+
+  /**
+   * Sweep counting the sequences (not periods) that cover each instant and stretch
+   * A min-heap of cursors merges the start- and end-sorted periods of every input
+   */
+  private static _multiSweep(sequences: readonly Sequence<Period>[]): SweepResult {
+    const heap: SweepCursor[] = [];
+    sequences.forEach((sequence, input) => {
+      const starts = sequence._sortedOperands();
+      if (starts.length > 0) {
+        heap.push({ periods: starts, input, isEnd: false, position: 0 });
+        heap.push({ periods: [...starts].sort((a, b) => a.endTime - b.endTime), input, isEnd: true, position: 0 });
+      }
+    });
+    for (let i = (heap.length >> 1) - 1; i >= 0; i--) {
+      siftDown(heap, i);
+    }
+
+    // Periods of each input active on the current stretch, and changes collected at the current time
+    const active = new Int32Array(sequences.length);
+    const depthChange = new Int32Array(sequences.length);
+    const instantChange = new Int32Array(sequences.length);
+    const touched: number[] = [];
+    const times: number[] = [];
+    const at: number[] = [];
+    const after: number[] = [];
+    let covered = 0;
+
+    while (heap.length > 0) {
+      const time = cursorTime(heap[0]);
+
+      while (heap.length > 0 && cursorTime(heap[0]) === time) {
+        const cursor = heap[0];
+        const bounds = cursor.periods[cursor.position].bounds;
+        if (depthChange[cursor.input] === 0 && instantChange[cursor.input] === 0 && !touched.includes(cursor.input)) {
+          touched.push(cursor.input);
+        }
+        // Same rules as _sweep: exclusive starts and inclusive ends only count after the instant
+        if (cursor.isEnd) {
+          depthChange[cursor.input]--;
+          if (!FastBounds.isEndInclusive(bounds)) instantChange[cursor.input]--;
+        } else {
+          depthChange[cursor.input]++;
+          if (FastBounds.isStartInclusive(bounds)) instantChange[cursor.input]++;
+        }
+
+        if (++cursor.position === cursor.periods.length) {
+          const last = heap.pop()!;
+          if (heap.length === 0) break;
+          heap[0] = last;
+        }
+        siftDown(heap, 0);
+      }
+
+      let instant = covered;
+      for (const input of touched) {
+        const wasCovered = active[input] > 0 ? 1 : 0;
+        instant += (active[input] + instantChange[input] > 0 ? 1 : 0) - wasCovered;
+        active[input] += depthChange[input];
+        covered += (active[input] > 0 ? 1 : 0) - wasCovered;
+        depthChange[input] = 0;
+        instantChange[input] = 0;
+      }
+      touched.length = 0;
+
+      times.push(time);
+      at.push(instant);
+      after.push(covered);
+    }
+
+    return { times, at, after };
+  }
+
   // Mutable-style methods (immutable behind the scenes)
 
   /**
    * Add a period to the end of the sequence
    * Returns a new Sequence instance (immutable design)
    */
-  push(period: Period): Sequence {
+  push(period: P): Sequence<P> {
     const newPeriods = [...this._periods, period];
     return new Sequence(newPeriods, true); // preserveOrder = true
   }
@@ -532,7 +1129,7 @@ export class Sequence implements Iterable<Period> {
    * Add a period to the beginning of the sequence
    * Returns a new Sequence instance (immutable design)
    */
-  unshift(period: Period): Sequence {
+  unshift(period: P): Sequence<P> {
     const newPeriods = [period, ...this._periods];
     return new Sequence(newPeriods, true); // preserveOrder = true
   }
@@ -543,7 +1140,7 @@ export class Sequence implements Iterable<Period> {
    * @param index - Zero-based index (supports negative indexing)
    * @param period - Period to insert
    */
-  insert(index: number, period: Period): Sequence {
+  insert(index: number, period: P): Sequence<P> {
     const len = this._periods.length;
     
     // Handle negative indexing: -1 means insert before last element
@@ -569,7 +1166,7 @@ export class Sequence implements Iterable<Period> {
    * Returns the removed period, and updates this sequence to a new instance
    * @param index - Zero-based index (supports negative indexing)
    */
-  remove(index: number): Period {
+  remove(index: number): P {
     const len = this._periods.length;
     
     // Handle negative indexing
@@ -588,8 +1185,11 @@ export class Sequence implements Iterable<Period> {
       ...this._periods.slice(index + 1)
     ];
     
-    // Update this instance to point to new sequence
-    Object.assign(this, new Sequence(newPeriods, true));
+    // Update this instance to point to new sequence, dropping caches built for the old contents
+    Object.assign(this, new Sequence(newPeriods, true), {
+      _boundaries: undefined, _gaps: undefined, _totalDuration: undefined, _depth: undefined,
+      _maxDepth: undefined, _isEmpty: undefined, _hasEmpty: undefined, _count: undefined, _index: undefined
+    });
     
     return removedPeriod;
   }
@@ -600,7 +1200,7 @@ export class Sequence implements Iterable<Period> {
    * @param index - Zero-based index (supports negative indexing)
    * @param period - New period to set
    */
-  set(index: number, period: Period): Sequence {
+  set(index: number, period: P): Sequence<P> {
     const len = this._periods.length;
     
     // Handle negative indexing
@@ -622,7 +1222,7 @@ export class Sequence implements Iterable<Period> {
    * Remove all periods from the sequence
    * Returns a new empty Sequence instance (immutable design)
    */
-  clear(): Sequence {
+  clear(): Sequence<P> {
     return Sequence.empty();
   }
 
@@ -634,6 +1234,31 @@ export class Sequence implements Iterable<Period> {
     return this._periods.some(p => p.equals(period));
   }
 
+  /**
+   * Find the periods that contain a date
+   * Uses the lazily built interval index - O(log n + k) after the first query
+   */
+  at(date: Date | number): Sequence<P> {
+    const timestamp = typeof date === 'number' ? date : date.getTime();
+    return new Sequence(this._getIndex().at(timestamp), true);
+  }
+
+  /**
+   * Find the periods that overlap a period (bounds-aware)
+   * Uses the lazily built interval index - O(log n + k) after the first query
+   */
+  overlapping(period: Period): Sequence<P> {
+    return new Sequence(this._getIndex().overlapping(period), true);
+  }
+
+  /**
+   * Find the periods lying entirely inside a period (bounds-aware)
+   * Uses the lazily built interval index - O(log n) plus the periods starting inside it
+   */
+  containedIn(period: Period): Sequence<P> {
+    return new Sequence(this._getIndex().containedIn(period), true);
+  }
+
   /**
    * Find the index of a specific period in the sequence
    * @param period - Period to search for
@@ -647,7 +1272,199 @@ export class Sequence implements Iterable<Period> {
   /**
    * Convert sequence to array (alias for toArray for compatibility)
    */
-  toList(): Period[] {
+  toList(): P[] {
     return this.toArray();
   }
+
+  /**
+   * Periods as set operations should see them: without empty periods, which hold no point
+   * Under discrete semantics: canonical [start, end) forms, without periods covering no whole unit
+   */
+  private _operands(): readonly P[] {
+    if (!PeriodSettings.discrete) {
+      if (this._hasEmpty === undefined) {
+        this._hasEmpty = this._periods.some(period => period._coversNothing());
+      }
+      return this._hasEmpty ? this._periods.filter(period => !period._coversNothing()) : this._periods;
+    }
+
+    const operands: P[] = [];
+    for (const period of this._periods) {
+      const discrete = period._toDiscrete() as P | null;
+      if (discrete) {
+        operands.push(discrete);
+      }
+    }
+    // Exclusive starts move forward, which can reorder periods with equal start times
+    return operands.sort(byStart);
+  }
+
+  /**
+   * Operands in start order - sequences kept in a custom order are sorted first
+   */
+  private _sortedOperands(): readonly P[] {
+    const operands = this._operands();
+    return this._sorted || PeriodSettings.discrete ? operands : [...operands].sort(byStart);
+  }
+
+  /**
+   * Get (or build) the interval index over the periods in start order
+   */
+  private _getIndex(): IntervalIndex<P> {
+    if (!this._index) {
+      const periods = this._sorted ? this._periods : [...this._periods].sort(byStart);
+      this._index = new IntervalIndex(periods);
+    }
+    return this._index;
+  }
+
+  /**
+   * Drop caches computed under different set semantics
+   */
+  private _syncSemantics(): void {
+    const semantics = PeriodSettings.semantics;
+    if (this._cacheSemantics !== semantics) {
+      this._cacheSemantics = semantics;
+      this._gaps = undefined;
+      this._totalDuration = undefined;
+      this._depth = undefined;
+      this._maxDepth = undefined;
+    }
+  }
+
+  /**
+   * Sweep over all distinct endpoints in time order
+   * For each time: depth at the instant itself and on the open stretch right after it
+   */
+  private _sweep(): SweepResult {
+    const periods = this._sortedOperands();
+    // Starts are sorted already; ends need their own order
+    const ends = [...periods].sort((a, b) => a.endTime - b.endTime);
+    const times: number[] = [];
+    const at: number[] = [];
+    const after: number[] = [];
+
+    let depth = 0;
+    let i = 0, j = 0;
+    while (i < periods.length || j < ends.length) {
+      const time = i < periods.length && periods[i].startTime < ends[j].endTime ? periods[i].startTime : ends[j].endTime;
+      let instant = depth;
+
+      // Inclusive starts cover the instant, exclusive ones only what follows
+      for (; i < periods.length && periods[i].startTime === time; i++) {
+        if (FastBounds.isStartInclusive(periods[i].bounds)) instant++;
+        depth++;
+      }
+      // Exclusive ends stop before the instant, inclusive ones right after it
+      for (; j < ends.length && ends[j].endTime === time; j++) {
+        if (!FastBounds.isEndInclusive(ends[j].bounds)) instant--;
+        depth--;
+      }
+
+      times.push(time);
+      at.push(instant);
+      after.push(depth);
+    }
+
+    return { times, at, after };
+  }
+
+  /**
+   * Build the coverage step function from the sweep
+   */
+  private _computeDepth(): Sequence<TaggedPeriod<number>> {
+    const first = this.first();
+    if (!first) {
+      return Sequence.empty();
+    }
+    const segments = Sequence._segments(this._sweep(), { precision: first.precision, zone: first.zone });
+    return new Sequence(segments, true); // preserveOrder = true (sweep order)
+  }
+
+  /**
+   * Step-function segments of a sweep, tagged with their coverage
+   * Each instant joins the neighbouring stretch with the same coverage (the earlier one first);
+   * instants matching neither side become single instants [a, a]
+   */
+  private static _segments({ times, at, after }: SweepResult, options: PeriodOptions): TaggedPeriod<number>[] {
+    const segments: TaggedPeriod<number>[] = [];
+
+    for (let i = 0; i < times.length; i++) {
+      const before = i > 0 ? after[i - 1] : 0;
+      if (at[i] > 0 && at[i] !== before && at[i] !== after[i]) {
+        segments.push(new TaggedPeriod(times[i], times[i], at[i], Bounds.IncludeAll, options));
+      }
+
+      const depth = after[i];
+      if (depth === 0 || i === times.length - 1) continue;
+
+      const startInclusive = at[i] === depth && !(i > 0 && after[i - 1] === depth);
+      const endInclusive = at[i + 1] === depth;
+      const last = segments[segments.length - 1];
+
+      // Extend the previous stretch when the depth carries on through the shared instant
+      if (last && last.payload === depth && last.endTime === times[i] && (startInclusive || FastBounds.isEndInclusive(last.bounds))) {
+        const bounds = FastBounds.fromBits(
+          (FastBounds.isStartInclusive(last.bounds) ? BOUNDS_MASKS.START_INCLUSIVE : 0) | (endInclusive ? BOUNDS_MASKS.END_INCLUSIVE : 0)
+        );
+        segments[segments.length - 1] = new TaggedPeriod(last.startTime, times[i + 1], depth, bounds, options);
+        continue;
+      }
+
+      const bounds = FastBounds.fromBits(
+        (startInclusive ? BOUNDS_MASKS.START_INCLUSIVE : 0) | (endInclusive ? BOUNDS_MASKS.END_INCLUSIVE : 0)
+      );
+      segments.push(new TaggedPeriod(times[i], times[i + 1], depth, bounds, options));
+    }
+
+    return segments;
+  }
+
+  /**
+   * Sweep-line entries in start order
+   * Under discrete semantics the canonical forms give the order; periods covering no whole unit are left out
+   */
+  private _sweepEntries(): SweepEntry[] {
+    const entries: SweepEntry[] = [];
+    const discrete = PeriodSettings.discrete;
+
+    for (let index = 0; index < this._periods.length; index++) {
+      const period = discrete ? this._periods[index]._toDiscrete() : this._periods[index];
+      if (period) {
+        entries.push({ index, start: period.startTime, end: period.endTime });
+      }
+    }
+    // Order by start even when the sequence keeps a custom order
+    return entries.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Drop (in place) the active entries ending before a start time
+   * Entries ending exactly at it stay - inclusive bounds may still share the instant
+   */
+  private static _evict(active: SweepEntry[], start: number): void {
+    let kept = 0;
+    for (const entry of active) {
+      if (entry.end >= start) {
+        active[kept++] = entry;
+      }
+    }
+    active.length = kept;
+  }
+
+  /**
+   * Conflict between two periods, or null if they share no point
+   */
+  private static _conflict<P extends Period, Q extends Period>(index: number, period: P, otherIndex: number, other: Q): Conflict<P, Q> | null {
+    const intersection = period.intersection(other);
+    return !intersection.isEmpty() ? { indices: [index, otherIndex], periods: [period, other], intersection } : null;
+  }
+
+  /**
+   * Merge the depth segments matching a predicate into plain periods
+   */
+  private _depthWhere(predicate: (depth: number) => boolean): Sequence {
+    const matching = this.depth().filter(segment => predicate(segment.payload));
+    return new Sequence(matching.map(segment => segment.toPeriod()), true).merge();
+  }
 }
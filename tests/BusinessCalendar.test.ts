@@ -0,0 +1,120 @@
+/**
+ * Tests for business-day calendars: weekend masks, holidays and business-day arithmetic
+ */
+
+import { Period, Sequence, BusinessCalendar, Bounds, Precision, Weekday, addBusinessDays } from '../src/index';
+
+describe('BusinessCalendar', () => {
+  // 2024-12-20 is a Friday; Christmas and Boxing Day fall on Wednesday and Thursday
+  const calendar = new BusinessCalendar({ holidays: ['2024-12-25', '2024-12-26', new Date('2025-01-01')] });
+
+  describe('Business days', () => {
+    test('weekends and holidays are not business days', () => {
+      expect(calendar.isBusinessDay('2024-12-20')).toBe(true);
+      expect(calendar.isBusinessDay('2024-12-21')).toBe(false);
+      expect(calendar.isWeekend('2024-12-22')).toBe(true);
+      expect(calendar.isHoliday('2024-12-25T15:00')).toBe(true);
+      expect(calendar.isBusinessDay('2024-12-25')).toBe(false);
+      expect(calendar.isWeekend('2024-12-25')).toBe(false);
+    });
+
+    test('weekend mask is configurable', () => {
+      const gulf = new BusinessCalendar({ weekend: [Weekday.Saturday, Weekday.Friday] });
+
+      expect(gulf.weekend).toEqual([Weekday.Friday, Weekday.Saturday]);
+      expect(gulf.isBusinessDay('2024-12-20')).toBe(false);
+      expect(gulf.isBusinessDay('2024-12-22')).toBe(true);
+      expect(new BusinessCalendar().weekend).toEqual([Weekday.Sunday, Weekday.Saturday]);
+      expect(() => new BusinessCalendar({ weekend: [0, 1, 2, 3, 4, 5, 6] })).toThrow('Weekend must leave at least one working day');
+    });
+
+    test('holiday periods cover every day they touch', () => {
+      const closure = new BusinessCalendar({
+        holidays: new Sequence(new Period('2024-08-05', '2024-08-07', Bounds.IncludeAll))
+      });
+
+      expect(closure.holidays.map(p => p.toString())).toEqual([
+        '[2024-08-05, 2024-08-06)', '[2024-08-06, 2024-08-07)', '[2024-08-07, 2024-08-08)'
+      ]);
+      expect(closure.isBusinessDay('2024-08-08')).toBe(true);
+    });
+
+    test('withHolidays() adds to a copy', () => {
+      const extended = calendar.withHolidays(['2024-12-24']);
+
+      expect(extended.isHoliday('2024-12-24')).toBe(true);
+      expect(extended.isHoliday('2024-12-25')).toBe(true);
+      expect(calendar.isHoliday('2024-12-24')).toBe(false);
+    });
+
+    test('days follow the calendar zone', () => {
+      const tokyo = new BusinessCalendar({ zone: 'Asia/Tokyo' });
+
+      // Friday 20:00 UTC is already Saturday in Tokyo
+      expect(tokyo.isBusinessDay(new Date('2024-12-20T20:00:00Z'))).toBe(false);
+      expect(calendar.isBusinessDay(new Date('2024-12-20T20:00:00Z'))).toBe(true);
+      expect(() => new BusinessCalendar({ zone: 'Mars/Olympus' })).toThrow('Invalid time zone');
+    });
+  });
+
+  describe('addBusinessDays()', () => {
+    test('skips weekends and holidays', () => {
+      expect(calendar.addBusinessDays('2024-12-20', 1).toISOString()).toBe('2024-12-23T00:00:00.000Z');
+      expect(calendar.addBusinessDays('2024-12-20', 3).toISOString()).toBe('2024-12-27T00:00:00.000Z');
+      expect(addBusinessDays('2024-12-31', 1, calendar).toISOString()).toBe('2025-01-02T00:00:00.000Z');
+    });
+
+    test('moves backward, keeps the time of day and accepts zero', () => {
+      expect(calendar.addBusinessDays('2024-12-27T15:30:00Z', -1).toISOString()).toBe('2024-12-24T15:30:00.000Z');
+      expect(calendar.addBusinessDays('2024-12-21', 0).toISOString()).toBe('2024-12-21T00:00:00.000Z');
+      expect(() => calendar.addBusinessDays('2024-12-20', 1.5)).toThrow('Business day count must be an integer');
+    });
+
+    test('keeps the wall-clock time across DST', () => {
+      const berlin = new BusinessCalendar({ zone: 'Europe/Berlin' });
+
+      // Friday 09:00 before the spring-forward weekend, Monday 09:00 after it
+      const next = berlin.addBusinessDays('2024-03-29T09:00', 1);
+
+      expect(next.toISOString()).toBe('2024-04-01T07:00:00.000Z');
+    });
+  });
+
+  describe('Periods', () => {
+    test('businessDays() counts the days a period touches', () => {
+      expect(Period.fromMonth(2024, 12).businessDays(calendar)).toBe(20);
+      expect(new Period('2024-12-23', '2024-12-28').businessDays(calendar)).toBe(3);
+      expect(new Period('2024-12-23', '2024-12-27', Bounds.ExcludeStartIncludeEnd).businessDays(calendar)).toBe(2);
+      expect(new Period('2024-12-20T09:00:00Z', '2024-12-20T17:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour })
+        .businessDays(calendar)).toBe(1);
+      expect(Period.empty().businessDays(calendar)).toBe(0);
+      expect(() => Period.from('2024-12-20').businessDays(calendar)).toThrow('Business days need a bounded period');
+    });
+
+    test('workingDays() lists whole business days', () => {
+      const days = new Period('2024-12-20', '2024-12-28').workingDays(calendar);
+
+      expect(days).toBeInstanceOf(Sequence);
+      expect(days.map(p => p.toString())).toEqual([
+        '[2024-12-20, 2024-12-21)', '[2024-12-23, 2024-12-24)', '[2024-12-24, 2024-12-25)', '[2024-12-27, 2024-12-28)'
+      ]);
+    });
+
+    test('Period.afterBusinessDays() covers n business days from the start day', () => {
+      expect(Period.afterBusinessDays('2024-12-20', 3, calendar).toString()).toBe('[2024-12-20, 2024-12-25)');
+      expect(Period.afterBusinessDays('2024-12-21', 1, calendar).toString()).toBe('[2024-12-21, 2024-12-24)');
+      expect(Period.afterBusinessDays('2024-12-23', 3, calendar, Bounds.IncludeAll).toString()).toBe('[2024-12-23, 2024-12-28]');
+      expect(Period.afterBusinessDays('2024-12-20', 5, calendar).businessDays(calendar)).toBe(5);
+      expect(() => Period.afterBusinessDays('2024-12-20', 0, calendar)).toThrow('Business day count must be a positive integer');
+    });
+
+    test('Period.afterBusinessDays() uses the calendar zone', () => {
+      const berlin = new BusinessCalendar({ zone: 'Europe/Berlin' });
+
+      const period = Period.afterBusinessDays('2024-12-20', 1, berlin);
+
+      expect(period.zone).toBe('Europe/Berlin');
+      expect(period.startTime).toBe(Date.parse('2024-12-19T23:00:00Z'));
+    });
+  });
+});
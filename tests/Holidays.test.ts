@@ -0,0 +1,123 @@
+/**
+ * Tests for the rule-based holiday generator and the bundled rule sets
+ * Expected dates are the published holidays of each jurisdiction
+ */
+
+import { Period, Sequence, TaggedPeriod, BusinessCalendar, Holidays, Observance, Weekday } from '../src/index';
+
+const dates = (holidays: Sequence<TaggedPeriod<string>>) => holidays.map(p => p.toString().slice(1, 11));
+
+describe('Holidays', () => {
+  describe('Rules', () => {
+    test('easter() follows the Gregorian computus', () => {
+      expect(Holidays.easter(2000).toISOString()).toBe('2000-04-23T00:00:00.000Z');
+      expect(Holidays.easter(2019).toISOString()).toBe('2019-04-21T00:00:00.000Z');
+      expect(Holidays.easter(2024).toISOString()).toBe('2024-03-31T00:00:00.000Z');
+      expect(Holidays.easter(2038).toISOString()).toBe('2038-04-25T00:00:00.000Z');
+    });
+
+    test('fixed, n-th weekday and Easter-relative rules', () => {
+      const holidays = Holidays.forYear([
+        { name: 'Thanksgiving', month: 11, weekday: Weekday.Thursday, nth: 4 },
+        { name: 'Last Monday of May', month: 5, weekday: Weekday.Monday, nth: -1 },
+        { name: 'Good Friday', easterOffset: -2 },
+        { name: 'Leap Day', month: 2, day: 29 }
+      ], 2024);
+
+      expect(dates(holidays)).toEqual(['2024-02-29', '2024-03-29', '2024-05-27', '2024-11-28']);
+      expect(holidays.get(0).payload).toBe('Leap Day');
+      expect(holidays.get(0)).toBeInstanceOf(TaggedPeriod);
+      expect(dates(Holidays.forYear([{ name: 'Leap Day', month: 2, day: 29 }], 2023))).toEqual([]);
+    });
+
+    test('weekend holidays move to the observed day', () => {
+      const rules = [
+        { name: 'Christmas Day', month: 12, day: 25, observance: Observance.FollowingMonday },
+        { name: 'Boxing Day', month: 12, day: 26, observance: Observance.FollowingMonday }
+      ];
+
+      // Saturday and Sunday: Monday and Tuesday
+      expect(dates(Holidays.forYear(rules, 2021))).toEqual(['2021-12-27', '2021-12-28']);
+      // Sunday and Monday: Boxing Day stays, Christmas moves past it
+      expect(Holidays.forYear(rules, 2022).map(p => `${p.payload} ${p.toString().slice(1, 11)}`))
+        .toEqual(['Boxing Day 2022-12-26', 'Christmas Day 2022-12-27']);
+      expect(dates(Holidays.forYear([{ name: 'Independence Day', month: 7, day: 4, observance: Observance.NearestWeekday }], 2026)))
+        .toEqual(['2026-07-03']);
+    });
+
+    test('since and until limit the years', () => {
+      const rules = [{ name: 'Juneteenth', month: 6, day: 19, since: 2021, until: 2030 }];
+
+      expect(dates(Holidays.forYear(rules, 2020))).toEqual([]);
+      expect(dates(Holidays.forYear(rules, 2024))).toEqual(['2024-06-19']);
+      expect(dates(Holidays.forYear(rules, 2031))).toEqual([]);
+    });
+
+    test('invalid rules are rejected', () => {
+      expect(() => Holidays.forYear([{ name: 'Nope', month: 2, day: 30 }], 2024)).toThrow('day 30 does not exist in month 2');
+      expect(() => Holidays.forYear([{ name: 'Nope', month: 13, day: 1 }], 2024)).toThrow('month must be 1-12');
+      expect(() => Holidays.forYear([{ name: 'Nope', month: 1, weekday: Weekday.Monday, nth: 0 }], 2024)).toThrow('nth must be');
+      expect(() => Holidays.register('XX', [{ name: '', easterOffset: 0 }])).toThrow('name is required');
+    });
+  });
+
+  describe('Bundled rule sets', () => {
+    test('US federal holidays', () => {
+      expect(dates(Holidays.forYear('US', 2024))).toEqual([
+        '2024-01-01', '2024-01-15', '2024-02-19', '2024-05-27', '2024-06-19', '2024-07-04',
+        '2024-09-02', '2024-10-14', '2024-11-11', '2024-11-28', '2024-12-25'
+      ]);
+      // New Year's Day 2022 is a Saturday, observed on Friday 2021-12-31
+      expect(dates(Holidays.forYear('us', 2022))[0]).toBe('2021-12-31');
+    });
+
+    test('England and Wales bank holidays', () => {
+      expect(dates(Holidays.forYear('GB', 2024))).toEqual([
+        '2024-01-01', '2024-03-29', '2024-04-01', '2024-05-06', '2024-05-27', '2024-08-26', '2024-12-25', '2024-12-26'
+      ]);
+    });
+
+    test('German and French holidays', () => {
+      expect(Holidays.forYear('DE', 2024).map(p => p.payload)).toContain('Whit Monday');
+      expect(dates(Holidays.forYear('DE', 2024))).toContain('2024-05-09');
+      expect(dates(Holidays.forYear('FR', 2024))).toContain('2024-07-14');
+      expect(Holidays.codes()).toEqual(expect.arrayContaining(['US', 'GB', 'DE', 'FR']));
+      expect(() => Holidays.forYear('ZZ', 2024)).toThrow('Unknown holiday rule set: ZZ');
+    });
+
+    test('custom rule sets can be registered', () => {
+      Holidays.register('acme', [
+        ...Holidays.rules('DE'),
+        { name: 'Company Day', month: 9, weekday: Weekday.Friday, nth: 1 }
+      ]);
+
+      expect(Holidays.forYear('ACME', 2024).count()).toBe(10);
+      expect(dates(Holidays.forYear('ACME', 2024))).toContain('2024-09-06');
+    });
+  });
+
+  describe('Periods', () => {
+    test('holidays are day periods in the requested zone', () => {
+      const [newYear] = Holidays.forYear('DE', 2024, { zone: 'Europe/Berlin' });
+
+      expect(newYear.zone).toBe('Europe/Berlin');
+      expect(newYear.startTime).toBe(Date.parse('2023-12-31T23:00:00Z'));
+      expect(newYear.equals(Period.fromDay('2024-01-01', { zone: 'Europe/Berlin' }))).toBe(true);
+    });
+
+    test('between() collects holidays across years, including observed spill-over', () => {
+      const holidays = Holidays.between('US', new Period('2021-12-01', '2022-01-31'));
+
+      expect(holidays.map(p => p.payload)).toEqual(['Christmas Day', "New Year's Day", 'Martin Luther King Jr. Day']);
+      expect(dates(holidays)).toEqual(['2021-12-24', '2021-12-31', '2022-01-17']);
+      expect(() => Holidays.between('US', Period.from('2024-01-01'))).toThrow('Holidays need a bounded window');
+    });
+
+    test('holiday sequences feed a business calendar', () => {
+      const calendar = new BusinessCalendar({ holidays: Holidays.between('GB', Period.fromYear(2024)) });
+
+      expect(Period.fromMonth(2024, 12).businessDays(calendar)).toBe(20);
+      expect(calendar.addBusinessDays('2024-03-28', 1).toISOString()).toBe('2024-04-02T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for iCalendar (.ics) import and export
+ * Runs offline against the fixture files in tests/fixtures
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Period, Sequence, TaggedPeriod, Bounds, Precision } from '../src/index';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('iCalendar', () => {
+  describe('Export', () => {
+    const schedule = new Sequence(
+      new TaggedPeriod('2024-01-01', '2024-01-05', 'Planning week', Bounds.IncludeAll),
+      new TaggedPeriod('2024-01-10', '2024-01-12', 'Offsite; Berlin, Munich', Bounds.ExcludeStartIncludeEnd),
+      new TaggedPeriod('2024-01-20', '2024-01-21', 'Covers no whole day', Bounds.ExcludeAll),
+      new TaggedPeriod('2024-01-15T10:00', '2024-01-15T11:30', 'Design review with a long title that has to be folded across content lines',
+                       Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute, zone: 'Europe/Berlin' })
+    );
+
+    test('toICS() matches the fixture', () => {
+      const ics = schedule.toICS({ timestamp: new Date(Date.UTC(2024, 0, 1, 12)), summary: period => period.payload });
+
+      expect(ics).toBe(fixture('schedule.ics'));
+    });
+
+    test('all-day events cover the days the bounds include', () => {
+      const ics = schedule.toICS({ timestamp: new Date(0) });
+
+      // [Jan 1, Jan 5] ends on Jan 6 (DTEND is exclusive), (Jan 10, Jan 12] starts on Jan 11
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240101\r\nDTEND;VALUE=DATE:20240106');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20240111\r\nDTEND;VALUE=DATE:20240113');
+      expect(ics).not.toContain('20240120');
+      expect(ics).not.toContain('SUMMARY');
+    });
+
+    test('lines use CRLF and are folded to 75 octets', () => {
+      const lines = schedule.toICS({ summary: period => period.payload }).split('\r\n');
+
+      expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines).toContain(' t lines');
+    });
+
+    test('an empty sequence is an empty calendar', () => {
+      expect(Sequence.empty().toICS({ timestamp: new Date(0) })).toBe(
+        'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//period-sequence//EN\r\nCALSCALE:GREGORIAN\r\nEND:VCALENDAR\r\n'
+      );
+    });
+  });
+
+  describe('Import', () => {
+    const year = Period.fromYear(2024);
+
+    test('fromICS() reads events and expands recurring ones', () => {
+      const sequence = Sequence.fromICS(fixture('google-calendar.ics'), { window: year });
+
+      expect(sequence.map(p => p.toString())).toEqual([
+        '[2024-03-18T09:00, 2024-03-18T09:15)', // Weekly standup, 2024-03-25 excluded
+        '[2024-03-25, 2024-03-30)',
+        '[2024-04-01T09:00, 2024-04-01T09:15)', // Same wall-clock time after DST
+        '[2024-04-02T13:00, 2024-04-02T14:30)', // DURATION instead of DTEND
+        '[2024-04-15, 2024-04-16)',             // BYMONTH is not supported - first occurrence only
+        '[2024-05-10, 2024-05-11)'              // Unlimited yearly rule, expanded within the window
+      ]);
+      expect(sequence.get(0).zone).toBe('Europe/Berlin');
+      expect(sequence.get(0).precision).toBe(Precision.Minute);
+      expect(sequence.get(1).precision).toBe(Precision.Day);
+    });
+
+    test('unlimited rules need a window', () => {
+      expect(() => Sequence.fromICS(fixture('google-calendar.ics'))).toThrow('Unlimited RRULE needs a window');
+    });
+
+    test('events are clipped to the window', () => {
+      const sequence = Sequence.fromICS(fixture('google-calendar.ics'), { window: new Period('2024-03-27', '2024-04-02') });
+
+      expect(sequence.map(p => p.toString())).toEqual(['[2024-03-27, 2024-03-30)', '[2024-04-01T09:00, 2024-04-01T09:15)']);
+    });
+
+    test('bounds option converts the imported periods', () => {
+      const sequence = Sequence.fromICS(fixture('schedule.ics'), { bounds: Bounds.IncludeAll });
+
+      expect(sequence.get(0).toString()).toBe('[2024-01-01, 2024-01-05]');
+      expect(sequence.get(1).toString()).toBe('[2024-01-11, 2024-01-12]');
+    });
+
+    test('export and import round-trip', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-02-01T09:30:00Z', '2024-02-01T10:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute })
+      );
+
+      const imported = Sequence.fromICS(sequence.toICS());
+
+      expect(imported.map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-06)', '[2024-02-01T09:30, 2024-02-01T10:00)']);
+      expect(imported.get(0).equals(sequence.get(0).canonicalize())).toBe(true);
+    });
+
+    test('Outlook exports with Windows time zone names', () => {
+      const sequence = Sequence.fromICS(fixture('outlook.ics'));
+
+      expect(sequence.map(p => p.toString())).toEqual([
+        '[2024-06-03T09:00, 2024-06-03T09:30)',
+        '[2024-06-10T09:00, 2024-06-10T09:30)',
+        '[2024-06-12T10:00, 2024-06-12T11:30)',
+        '[2024-06-14T09:30, 2024-06-14T10:30)' // Customized Time Zone: fixed +05:30 from its VTIMEZONE
+      ]);
+      expect(sequence.get(0).zone).toBe('Europe/Berlin');
+      expect(sequence.get(2).start.toISOString()).toBe('2024-06-12T08:00:00.000Z');
+      expect(sequence.get(3).start.toISOString()).toBe('2024-06-14T09:30:00.000Z');
+    });
+
+    test('recurring events in a fixed-offset VTIMEZONE keep the offset', () => {
+      const ics = fixture('outlook.ics').replace(
+        'SUMMARY;LANGUAGE=en-us:Call with Pune office',
+        'RRULE:FREQ=DAILY;COUNT=2\r\nSUMMARY;LANGUAGE=en-us:Call with Pune office'
+      );
+
+      const calls = Sequence.fromICS(ics).filter(p => p.start.getUTCHours() === 9 && p.start.getUTCMinutes() === 30);
+
+      expect(calls.map(p => p.start.toISOString())).toEqual(['2024-06-14T09:30:00.000Z', '2024-06-15T09:30:00.000Z']);
+    });
+
+    test('time zones the calendar does not define are rejected', () => {
+      const ics = fixture('outlook.ics').replace(/TZID="Customized Time Zone"/g, 'TZID="Mars Standard Time"');
+
+      expect(() => Sequence.fromICS(ics)).toThrow('Unknown iCalendar time zone: Mars Standard Time');
+    });
+
+    test('text without events gives an empty sequence', () => {
+      expect(Sequence.fromICS('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n').isEmpty()).toBe(true);
+      expect(() => Sequence.fromICS('BEGIN:VEVENT\nDTSTART;VALUE=DATE:2024\nEND:VEVENT')).toThrow('Invalid iCalendar date');
+    });
+  });
+});
@@ -96,6 +96,19 @@ describe('Advanced Performance Optimizations', () => {
       expect(FastBounds.touchingOverlaps(Bounds.ExcludeAll, Bounds.ExcludeAll)).toBe(false);
     });
 
+    test('bounds combination for set operations', () => {
+      // Intersection: shared endpoints are inclusive only if both are
+      expect(FastBounds.intersectBounds(Bounds.IncludeAll, Bounds.ExcludeAll)).toBe(Bounds.ExcludeAll);
+      // Union: shared endpoints are inclusive if either is
+      expect(FastBounds.unionBounds(Bounds.IncludeStartExcludeEnd, Bounds.ExcludeStartIncludeEnd)).toBe(Bounds.IncludeAll);
+      // Differing endpoints take the bounds of the period that supplies them
+      expect(FastBounds.intersectBounds(Bounds.IncludeAll, Bounds.ExcludeAll, -1, -1)).toBe(Bounds.ExcludeStartIncludeEnd);
+      expect(FastBounds.unionBounds(Bounds.IncludeAll, Bounds.ExcludeAll, -1, -1)).toBe(Bounds.IncludeStartExcludeEnd);
+      // Gaps complement the neighbouring endpoints
+      expect(FastBounds.gapBounds(Bounds.IncludeStartExcludeEnd, Bounds.IncludeStartExcludeEnd)).toBe(Bounds.IncludeStartExcludeEnd);
+      expect(FastBounds.gapBounds(Bounds.IncludeAll, Bounds.ExcludeAll)).toBe(Bounds.ExcludeStartIncludeEnd);
+    });
+
     test('batch bounds checking performs well', () => {
       const bounds = Array(10000).fill(0).map((_, i) => 
         [Bounds.IncludeStartExcludeEnd, Bounds.IncludeAll, Bounds.ExcludeAll][i % 3]
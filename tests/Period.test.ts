@@ -3,7 +3,7 @@
  * Tests all functionality including edge cases and performance benchmarks
  */
 
-import { Period, Bounds, Duration, DurationInterval } from '../src/index';
+import { Period, Bounds, Duration, DurationInterval, Precision, PeriodSettings, Semantics, TaggedPeriod, Weekday } from '../src/index';
 
 describe('Period Class', () => {
   const jan1 = new Date('2024-01-01T00:00:00.000Z');
@@ -25,9 +25,9 @@ describe('Period Class', () => {
       expect(period.bounds).toBe(Bounds.IncludeAll);
     });
 
-    test('throws error when start >= end', () => {
-      expect(() => new Period(jan31, jan1)).toThrow('Start date must be before end date');
-      expect(() => new Period(jan1, jan1)).toThrow('Start date must be before end date');
+    test('throws error when start > end', () => {
+      expect(() => new Period(jan31, jan1)).toThrow('Start date must not be after end date');
+      expect(new Period(jan1, jan1).isEmpty()).toBe(true);
     });
 
     test('works with numeric timestamps', () => {
@@ -876,8 +876,8 @@ describe('Period Class', () => {
     test('sub-day periods are normalized to whole days', () => {
       const sameDayPeriod = () => new Period('2024-01-01T08:00:00Z', '2024-01-01T16:00:00Z');
       
-      // Should throw because both normalize to the same day
-      expect(sameDayPeriod).toThrow('Start date must be before end date');
+      // Both normalize to the same day, which leaves no time in between
+      expect(sameDayPeriod().isEmpty()).toBe(true);
     });
 
     test('durationInDays property works correctly', () => {
@@ -890,4 +890,902 @@ describe('Period Class', () => {
       expect(oneMonth.durationInDays).toBe(29); // Feb 2024 has 29 days
     });
   });
+
+  describe('Sub-Day Precision', () => {
+    test('defaults to day precision', () => {
+      const period = new Period('2024-01-01T09:00:00Z', '2024-01-02T17:30:00Z');
+      expect(period.precision).toBe(Precision.Day);
+      expect(period.toString()).toBe('[2024-01-01, 2024-01-02)');
+    });
+
+    test('keeps a shift within a single day at minute precision', () => {
+      const shift = new Period('2024-01-15T09:00:00Z', '2024-01-15T17:30:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute });
+
+      expect(shift.start.toISOString()).toBe('2024-01-15T09:00:00.000Z');
+      expect(shift.end.toISOString()).toBe('2024-01-15T17:30:00.000Z');
+      expect(shift.getDuration().minutes).toBe(510);
+      expect(shift.getDuration().hours).toBe(8);
+      expect(shift.getDuration().days).toBe(0);
+    });
+
+    test('truncates endpoints to the chosen precision', () => {
+      const period = new Period('2024-01-15T09:45:12.345Z', '2024-01-15T17:10:59.999Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour });
+      expect(period.start.toISOString()).toBe('2024-01-15T09:00:00.000Z');
+      expect(period.end.toISOString()).toBe('2024-01-15T17:00:00.000Z');
+    });
+
+    test('fromDuration keeps the precision of the start and the duration', () => {
+      const period = Period.fromDuration('2024-01-15T09:00:00Z', DurationInterval.fromHours(4));
+      expect(period.precision).toBe(Precision.Hour);
+      expect(period.end.toISOString()).toBe('2024-01-15T13:00:00.000Z');
+
+      const days = Period.fromDuration('2024-01-15', DurationInterval.fromDays(2));
+      expect(days.precision).toBe(Precision.Day);
+      expect(days.toString()).toBe('[2024-01-15, 2024-01-17)');
+      expect(Period.fromDuration('2024-01-15T09:00:00Z', DurationInterval.fromDays(2)).toString()).toBe('[2024-01-15T09:00, 2024-01-17T09:00)');
+    });
+
+    test('fromDuration keeps a start off the hour', () => {
+      const period = Period.fromDuration('2024-01-01T09:30:00Z', DurationInterval.fromHours(4));
+
+      expect(period.precision).toBe(Precision.Minute);
+      expect(period.toString()).toBe('[2024-01-01T09:30, 2024-01-01T13:30)');
+    });
+
+    test('containsDate truncates to the period precision', () => {
+      const shift = new Period('2024-01-15T09:00:00Z', '2024-01-15T17:00:00Z', Bounds.ExcludeStartIncludeEnd, { precision: Precision.Hour });
+      expect(shift.containsDate(new Date('2024-01-15T09:30:00Z'))).toBe(false); // Within the excluded start hour
+      expect(shift.containsDate(new Date('2024-01-15T10:00:00Z'))).toBe(true);
+      expect(shift.containsDate(new Date('2024-01-15T17:45:00Z'))).toBe(true); // Within the included end hour
+    });
+
+    test('overlaps, contains and gap work on sub-day periods', () => {
+      const options = { precision: Precision.Minute };
+      const morning = new Period('2024-01-15T08:00:00Z', '2024-01-15T12:00:00Z', Bounds.IncludeStartExcludeEnd, options);
+      const meeting = new Period('2024-01-15T10:00:00Z', '2024-01-15T10:30:00Z', Bounds.IncludeStartExcludeEnd, options);
+      const evening = new Period('2024-01-15T18:00:00Z', '2024-01-15T22:00:00Z', Bounds.IncludeStartExcludeEnd, options);
+
+      expect(morning.overlaps(meeting)).toBe(true);
+      expect(morning.contains(meeting)).toBe(true);
+      expect(morning.overlaps(evening)).toBe(false);
+
+      const gap = morning.gap(evening)!;
+      expect(gap.precision).toBe(Precision.Minute);
+      expect(gap.start.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+      expect(gap.end.toISOString()).toBe('2024-01-15T18:00:00.000Z');
+    });
+
+    test('derived periods keep their precision', () => {
+      const shift = new Period('2024-01-15T09:00:00Z', '2024-01-15T17:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour });
+      expect(shift.move(DurationInterval.fromHours(2)).toString()).toBe('[2024-01-15T11:00, 2024-01-15T19:00)');
+      expect(shift.withBounds(Bounds.IncludeAll).precision).toBe(Precision.Hour);
+      expect(shift.withPrecision(Precision.Day).isEmpty()).toBe(true);
+    });
+
+    test('formats times for sub-day precisions', () => {
+      const shift = new Period('2024-01-15T09:00:05Z', '2024-01-15T17:30:10Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Second });
+      expect(shift.format('iso')).toBe('[2024-01-15T09:00:05, 2024-01-15T17:30:10)');
+      expect(shift.format('short')).toBe('[Jan 15, 2024, 09:00:05, Jan 15, 2024, 17:30:10)');
+      expect(shift.toDisplayString()).toBe('Jan 15, 2024, 09:00:05 - 17:30:10');
+
+      const night = new Period('2024-01-15T22:00:00Z', '2024-01-16T06:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute });
+      expect(night.toDisplayString()).toBe('Jan 15, 2024, 22:00 - Jan 16, 2024, 06:00');
+    });
+  });
+
+  describe('Time Zones', () => {
+    test('fromDay follows midnight in the zone across a DST start', () => {
+      const day = Period.fromDay('2024-03-31', { zone: 'Europe/Berlin' });
+
+      expect(day.zone).toBe('Europe/Berlin');
+      expect(day.start.toISOString()).toBe('2024-03-30T23:00:00.000Z');
+      expect(day.end.toISOString()).toBe('2024-03-31T22:00:00.000Z'); // 23-hour day
+      expect(day.durationInDays).toBe(1);
+      expect(day.toString()).toBe('[2024-03-31, 2024-04-01)');
+      expect(day.toDisplayString()).toBe('Mar 31, 2024');
+    });
+
+    test('western zones do not shift to the previous day', () => {
+      const day = Period.fromDay('2024-11-03', { zone: 'America/Los_Angeles' });
+
+      expect(day.start.toISOString()).toBe('2024-11-03T07:00:00.000Z');
+      expect(day.end.toISOString()).toBe('2024-11-04T08:00:00.000Z'); // 25-hour day
+      expect(day.getDuration().days).toBe(1);
+      expect(day.getDuration().hours).toBe(25);
+      expect(day.toString()).toBe('[2024-11-03, 2024-11-04)');
+    });
+
+    test('calendar constructors accept bounds together with a zone', () => {
+      const april = Period.fromMonth(2024, 4, { zone: 'Australia/Sydney', bounds: Bounds.IncludeAll });
+
+      expect(april.bounds).toBe(Bounds.IncludeAll);
+      expect(april.start.toISOString()).toBe('2024-03-31T13:00:00.000Z'); // AEDT (+11)
+      expect(april.end.toISOString()).toBe('2024-04-30T14:00:00.000Z');  // AEST (+10)
+      expect(april.durationInDays).toBe(30);
+      expect(april.format('iso')).toBe('[2024-04-01, 2024-05-01]');
+    });
+
+    test('week, quarter, year and relative constructors honour the zone', () => {
+      const zone = 'America/New_York';
+
+      expect(Period.fromWeek(2024, 10, { zone }).start.toISOString()).toBe('2024-03-04T05:00:00.000Z');
+      expect(Period.fromQuarter(2024, 2, { zone }).end.toISOString()).toBe('2024-07-01T04:00:00.000Z');
+      expect(Period.fromYear(2024, { zone }).toString()).toBe('[2024-01-01, 2025-01-01)');
+
+      const trip = Period.after('2024-03-08', DurationInterval.fromDays(4), { zone });
+      expect(trip.toString()).toBe('[2024-03-08, 2024-03-12)');
+      expect(trip.durationInDays).toBe(4);
+    });
+
+    test('instants are assigned to the calendar day of the zone', () => {
+      // 2024-01-15T20:00Z is already Jan 16 in Sydney
+      const day = Period.fromDay(new Date('2024-01-15T20:00:00.000Z'), { zone: 'Australia/Sydney' });
+      expect(day.toString()).toBe('[2024-01-16, 2024-01-17)');
+
+      expect(day.containsDate(new Date('2024-01-16T12:00:00.000Z'))).toBe(true);  // Jan 16, 23:00 local
+      expect(day.containsDate(new Date('2024-01-16T13:00:00.000Z'))).toBe(false); // Jan 17, 00:00 local
+    });
+
+    test('today() uses UTC by default instead of host local time', () => {
+      const today = Period.today();
+      const now = new Date();
+
+      expect(today.zone).toBe('UTC');
+      expect(today.start.toISOString().slice(0, 10)).toBe(now.toISOString().slice(0, 10));
+      expect(Period.today({ zone: 'Pacific/Kiritimati' }).durationInDays).toBe(1);
+      expect(Period.thisWeek({ zone: 'Asia/Tokyo' }).durationInDays).toBe(7);
+    });
+
+    test('sub-day precision uses the zone wall clock', () => {
+      const shift = new Period('2024-07-01T09:00', '2024-07-01T17:30', Bounds.IncludeStartExcludeEnd, {
+        zone: 'Europe/Berlin', precision: Precision.Minute
+      });
+
+      expect(shift.start.toISOString()).toBe('2024-07-01T07:00:00.000Z');
+      expect(shift.toString()).toBe('[2024-07-01T09:00, 2024-07-01T17:30)');
+      expect(shift.toDisplayString()).toBe('Jul 1, 2024, 09:00 - 17:30');
+    });
+
+    test('derived periods keep their zone', () => {
+      const day = Period.fromDay('2024-03-30', { zone: 'Europe/Berlin' });
+      const next = day.move(DurationInterval.fromDays(1));
+      expect(next.zone).toBe('Europe/Berlin');
+      expect(day.withBounds(Bounds.IncludeAll).zone).toBe('Europe/Berlin');
+      expect(day.withZone('UTC').toString()).toBe('[2024-03-29, 2024-03-30)');
+    });
+
+    test('rejects unknown zones', () => {
+      expect(() => Period.fromDay('2024-01-01', { zone: 'Mars/Olympus_Mons' })).toThrow('Invalid time zone: Mars/Olympus_Mons');
+    });
+  });
+
+  describe('Calendar-Aware DurationInterval', () => {
+    test('keeps calendar components separate', () => {
+      const duration = DurationInterval.fromISO8601('P1Y2M3W4DT5H6M7.5S');
+      expect(duration.components).toEqual({
+        years: 1, months: 2, weeks: 3, days: 4, hours: 5, minutes: 6, seconds: 7, milliseconds: 500
+      });
+      expect(duration.isCalendar).toBe(true);
+      expect(DurationInterval.fromHours(3).isCalendar).toBe(false);
+    });
+
+    test('toISO8601 round-trips', () => {
+      expect(DurationInterval.fromISO8601('P1Y2M3DT4H5M6S').toISO8601()).toBe('P1Y2M3DT4H5M6S');
+      expect(DurationInterval.fromMonths(1).toISO8601()).toBe('P1M');
+      expect(DurationInterval.fromWeeks(2).toString()).toBe('P2W');
+      expect(new DurationInterval(90061500).toISO8601()).toBe('PT25H1M1.5S');
+      expect(new DurationInterval(0).toISO8601()).toBe('PT0S');
+    });
+
+    test('adds months with month-end clamping', () => {
+      const jan31 = Date.UTC(2024, 0, 31);
+      const oneMonth = DurationInterval.fromMonths(1);
+
+      expect(new Date(oneMonth.addTo(jan31)).toISOString()).toBe('2024-02-29T00:00:00.000Z');
+      expect(new Date(DurationInterval.fromYears(1).addTo(Date.UTC(2024, 1, 29))).toISOString()).toBe('2025-02-28T00:00:00.000Z');
+      expect(new Date(oneMonth.subtractFrom(Date.UTC(2024, 2, 31))).toISOString()).toBe('2024-02-29T00:00:00.000Z');
+    });
+
+    test('adds days on the wall clock of a zone', () => {
+      const beforeDst = new Date('2024-03-30T09:00:00.000Z').getTime(); // 10:00 in Berlin
+      const next = DurationInterval.fromDays(1).addTo(beforeDst, 'Europe/Berlin');
+      expect(new Date(next).toISOString()).toBe('2024-03-31T08:00:00.000Z'); // Still 10:00 in Berlin
+    });
+
+    test('fractional calendar units are added as exact time', () => {
+      const start = Date.UTC(2024, 0, 1);
+      const hours = (duration: DurationInterval) => (duration.addTo(start) - start) / 3600000;
+
+      expect(hours(DurationInterval.fromDays(1.5))).toBe(36);
+      expect(DurationInterval.fromDays(1.5).milliseconds).toBe(36 * 3600000);
+      expect(DurationInterval.fromDays(1.5).components).toEqual({
+        years: 0, months: 0, weeks: 0, days: 1, hours: 12, minutes: 0, seconds: 0, milliseconds: 0
+      });
+      expect(hours(DurationInterval.fromWeeks(0.5))).toBe(84);
+      // Half a month is half of the nominal 30 days on top of the calendar month
+      expect(new Date(DurationInterval.fromMonths(1.5).addTo(start)).toISOString()).toBe('2024-02-16T00:00:00.000Z');
+      expect(DurationInterval.fromDays(1).multiply(2.5).toISO8601()).toBe('P2DT12H');
+    });
+
+    test('periods from fractional days keep their length', () => {
+      const period = Period.fromDuration('2024-01-01', DurationInterval.fromDays(1.5));
+
+      expect(period.end.toISOString()).toBe('2024-01-02T12:00:00.000Z');
+      const hourly = new Period('2024-01-01T00:00:00Z', '2024-01-01T06:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour });
+      expect(hourly.withDuration(DurationInterval.fromDays(1.5)).end.toISOString()).toBe('2024-01-02T12:00:00.000Z');
+      expect(hourly.move(DurationInterval.fromDays(0.5)).start.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+    });
+
+    test('fromISO8601 period ends at the end of February', () => {
+      const period = Period.fromISO8601('2024-01-31', 'P1M');
+      expect(period.toString()).toBe('[2024-01-31, 2024-02-29)');
+    });
+
+    test('move, withDuration and expand are calendar-correct', () => {
+      const january = Period.fromMonth(2024, 1);
+
+      expect(january.move(DurationInterval.fromMonths(1)).toString()).toBe('[2024-02-01, 2024-03-01)');
+      expect(january.moveBackward(DurationInterval.fromYears(1)).toString()).toBe('[2023-01-01, 2023-02-01)');
+      expect(Period.fromDay('2024-01-31').withDuration(DurationInterval.fromMonths(1)).toString()).toBe('[2024-01-31, 2024-02-29)');
+      expect(january.expand(DurationInterval.fromMonths(2)).toString()).toBe('[2023-12-01, 2024-03-01)');
+    });
+
+    test('after, before and around use calendar arithmetic', () => {
+      expect(Period.after('2024-01-31', DurationInterval.fromMonths(1)).toString()).toBe('[2024-01-31, 2024-02-29)');
+      expect(Period.before('2024-03-31', DurationInterval.fromMonths(1)).toString()).toBe('[2024-02-29, 2024-03-31)');
+      expect(Period.around('2024-05-31', DurationInterval.fromMonths(2)).toString()).toBe('[2024-04-30, 2024-06-30)');
+    });
+
+    test('moving a zoned day keeps it on the zone calendar', () => {
+      const day = Period.fromDay('2024-03-30', { zone: 'Europe/Berlin' });
+      const moved = day.move(DurationInterval.fromDays(1));
+      expect(moved.toString()).toBe('[2024-03-31, 2024-04-01)');
+      expect(moved.end.toISOString()).toBe('2024-03-31T22:00:00.000Z');
+    });
+  });
+
+  describe("Allen's Interval Relations", () => {
+    const p = (start: string, end: string, bounds: Bounds = Bounds.IncludeStartExcludeEnd) => new Period(start, end, bounds);
+    const base = p('2024-01-10', '2024-01-20');
+
+    test.each([
+      ['precedes', p('2024-01-01', '2024-01-05')],
+      ['meets', p('2024-01-05', '2024-01-10')],
+      ['overlaps', p('2024-01-05', '2024-01-15')],
+      ['finishedBy', p('2024-01-05', '2024-01-20')],
+      ['contains', p('2024-01-05', '2024-01-25')],
+      ['starts', p('2024-01-10', '2024-01-15')],
+      ['equals', p('2024-01-10', '2024-01-20')],
+      ['startedBy', p('2024-01-10', '2024-01-25')],
+      ['during', p('2024-01-12', '2024-01-15')],
+      ['finishes', p('2024-01-15', '2024-01-20')],
+      ['overlappedBy', p('2024-01-15', '2024-01-25')],
+      ['metBy', p('2024-01-20', '2024-01-25')],
+      ['precededBy', p('2024-01-22', '2024-01-25')]
+    ] as const)('relation() detects %s', (expected, period) => {
+      expect(period.relation(base)).toBe(expected);
+    });
+
+    test('inverse relations mirror each other', () => {
+      const inverse: Record<string, string> = {
+        precedes: 'precededBy', meets: 'metBy', overlaps: 'overlappedBy', finishedBy: 'finishes',
+        contains: 'during', starts: 'startedBy', equals: 'equals'
+      };
+      const others = [p('2024-01-01', '2024-01-05'), p('2024-01-05', '2024-01-10'), p('2024-01-05', '2024-01-15'),
+                      p('2024-01-05', '2024-01-20'), p('2024-01-05', '2024-01-25'), p('2024-01-10', '2024-01-15'),
+                      p('2024-01-10', '2024-01-20')];
+      for (const other of others) {
+        expect(base.relation(other)).toBe(inverse[other.relation(base)]);
+      }
+    });
+
+    test('bounds decide touching periods', () => {
+      const left = (bounds: Bounds) => p('2024-01-01', '2024-01-10', bounds);
+      const right = (bounds: Bounds) => p('2024-01-10', '2024-01-20', bounds);
+
+      expect(left(Bounds.IncludeStartExcludeEnd).relation(right(Bounds.IncludeStartExcludeEnd))).toBe('meets');
+      expect(left(Bounds.IncludeAll).relation(right(Bounds.ExcludeAll))).toBe('meets');
+      expect(left(Bounds.IncludeAll).relation(right(Bounds.IncludeAll))).toBe('overlaps'); // Share Jan 10
+      expect(left(Bounds.ExcludeAll).relation(right(Bounds.ExcludeAll))).toBe('precedes'); // Jan 10 in neither
+    });
+
+    test('bounds decide equal endpoints', () => {
+      const closed = p('2024-01-10', '2024-01-20', Bounds.IncludeAll);
+      const open = p('2024-01-10', '2024-01-20', Bounds.ExcludeAll);
+      const halfOpen = p('2024-01-10', '2024-01-20', Bounds.IncludeStartExcludeEnd);
+
+      expect(open.relation(closed)).toBe('during');
+      expect(closed.relation(open)).toBe('contains');
+      expect(halfOpen.relation(closed)).toBe('starts');
+      expect(closed.relation(halfOpen)).toBe('startedBy');
+      expect(open.relation(halfOpen)).toBe('finishes');
+    });
+
+    test('named predicates match relation()', () => {
+      const earlier = p('2024-01-05', '2024-01-15');
+      expect(earlier.partiallyOverlaps(base)).toBe(true);
+      expect(base.overlappedBy(earlier)).toBe(true);
+      expect(p('2024-01-01', '2024-01-05').precedes(base)).toBe(true);
+      expect(base.precededBy(p('2024-01-01', '2024-01-05'))).toBe(true);
+      expect(p('2024-01-05', '2024-01-10').meets(base)).toBe(true);
+      expect(base.metBy(p('2024-01-05', '2024-01-10'))).toBe(true);
+      expect(p('2024-01-10', '2024-01-15').starts(base)).toBe(true);
+      expect(base.startedBy(p('2024-01-10', '2024-01-15'))).toBe(true);
+      expect(p('2024-01-12', '2024-01-15').during(base)).toBe(true);
+      expect(base.encloses(p('2024-01-12', '2024-01-15'))).toBe(true);
+      expect(p('2024-01-15', '2024-01-20').finishes(base)).toBe(true);
+      expect(base.finishedBy(p('2024-01-15', '2024-01-20'))).toBe(true);
+      expect(base.coincides(p('2024-01-10', '2024-01-20'))).toBe(true);
+      expect(base.coincides(p('2024-01-10', '2024-01-20', Bounds.IncludeAll))).toBe(false);
+    });
+
+    test('isBefore and isAfter honour bounds like overlaps', () => {
+      const left = p('2024-01-01', '2024-01-10', Bounds.IncludeAll);
+      const right = p('2024-01-10', '2024-01-20', Bounds.IncludeAll);
+
+      expect(left.overlaps(right)).toBe(true);
+      expect(left.isBefore(right)).toBe(false); // They share Jan 10
+      expect(right.isAfter(left)).toBe(false);
+
+      const halfOpen = p('2024-01-01', '2024-01-10');
+      expect(halfOpen.isBefore(right)).toBe(true);
+      expect(right.isAfter(halfOpen)).toBe(true);
+    });
+  });
+
+
+  describe('Bounds-Correct Set Operations', () => {
+    test('intersection takes the later start and the earlier end with their bounds', () => {
+      const a = new Period('2024-01-01', '2024-01-10', Bounds.ExcludeAll);
+      const b = new Period('2024-01-05', '2024-01-15', Bounds.IncludeAll);
+
+      expect(a.intersection(b).toString()).toBe('[2024-01-05, 2024-01-10)');
+      expect(b.intersection(a).toString()).toBe('[2024-01-05, 2024-01-10)');
+    });
+
+    test('intersection includes a shared endpoint only if both periods include it', () => {
+      const closed = new Period('2024-01-01', '2024-01-10', Bounds.IncludeAll);
+      const open = new Period('2024-01-01', '2024-01-10', Bounds.ExcludeAll);
+      const halfOpen = new Period('2024-01-01', '2024-01-10', Bounds.IncludeStartExcludeEnd);
+
+      expect(closed.intersection(closed).bounds).toBe(Bounds.IncludeAll);
+      expect(closed.intersection(open).bounds).toBe(Bounds.ExcludeAll);
+      expect(closed.intersection(halfOpen).bounds).toBe(Bounds.IncludeStartExcludeEnd);
+      expect(open.intersection(halfOpen).bounds).toBe(Bounds.ExcludeAll);
+    });
+
+    test('intersection of periods sharing a single instant is that instant', () => {
+      const a = new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll);
+      const b = new Period('2024-01-05', '2024-01-10', Bounds.IncludeAll);
+
+      expect(a.overlaps(b)).toBe(true);
+      expect(a.intersection(b).toString()).toBe('[2024-01-05, 2024-01-05]');
+      expect(a.intersection(b).isInstant()).toBe(true);
+    });
+
+    test('union takes the earlier start and the later end with their bounds', () => {
+      const a = new Period('2024-01-01', '2024-01-10', Bounds.ExcludeStartIncludeEnd);
+      const b = new Period('2024-01-05', '2024-01-15', Bounds.IncludeStartExcludeEnd);
+
+      expect(a.union(b)!.toString()).toBe('(2024-01-01, 2024-01-15)');
+      expect(b.union(a)!.toString()).toBe('(2024-01-01, 2024-01-15)');
+    });
+
+    test('union includes a shared endpoint if either period includes it', () => {
+      const open = new Period('2024-01-01', '2024-01-10', Bounds.ExcludeAll);
+      const closed = new Period('2024-01-01', '2024-01-10', Bounds.IncludeAll);
+      const halfOpen = new Period('2024-01-01', '2024-01-10', Bounds.ExcludeStartIncludeEnd);
+
+      expect(open.union(closed)!.bounds).toBe(Bounds.IncludeAll);
+      expect(open.union(halfOpen)!.bounds).toBe(Bounds.ExcludeStartIncludeEnd);
+      expect(open.union(open)!.bounds).toBe(Bounds.ExcludeAll);
+    });
+
+    test('gap includes exactly the endpoints its neighbours exclude', () => {
+      const cases: Array<[Bounds, Bounds, string]> = [
+        [Bounds.IncludeStartExcludeEnd, Bounds.IncludeStartExcludeEnd, '[2024-01-05, 2024-01-10)'],
+        [Bounds.IncludeAll, Bounds.IncludeAll, '(2024-01-05, 2024-01-10)'],
+        [Bounds.ExcludeAll, Bounds.ExcludeAll, '[2024-01-05, 2024-01-10]'],
+        [Bounds.ExcludeStartIncludeEnd, Bounds.ExcludeStartIncludeEnd, '(2024-01-05, 2024-01-10]']
+      ];
+
+      for (const [beforeBounds, afterBounds, expected] of cases) {
+        const before = new Period('2024-01-01', '2024-01-05', beforeBounds);
+        const after = new Period('2024-01-10', '2024-01-15', afterBounds);
+        expect(before.gap(after)!.toString()).toBe(expected);
+        expect(after.gap(before)!.toString()).toBe(expected);
+      }
+    });
+  });
+
+
+  describe('Discrete Semantics', () => {
+    afterEach(() => {
+      PeriodSettings.reset();
+    });
+
+    test('canonicalize converts between bounds covering the same days', () => {
+      const period = new Period('2024-01-01', '2024-01-05', Bounds.ExcludeStartIncludeEnd);
+
+      expect(period.canonicalize().toString()).toBe('[2024-01-02, 2024-01-06)');
+      expect(period.canonicalize(Bounds.IncludeAll).toString()).toBe('[2024-01-02, 2024-01-05]');
+      expect(period.canonicalize(Bounds.ExcludeAll).toString()).toBe('(2024-01-01, 2024-01-06)');
+      expect(period.canonicalize(Bounds.ExcludeStartIncludeEnd)).toBe(period);
+    });
+
+    test('canonicalize steps by the period precision', () => {
+      const period = new Period('2024-01-15T09:00:00Z', '2024-01-15T17:00:00Z', Bounds.IncludeAll, { precision: Precision.Hour });
+
+      expect(period.canonicalize().toString()).toBe('[2024-01-15T09:00, 2024-01-15T18:00)');
+    });
+
+    test('canonicalize steps by calendar days in a zone', () => {
+      // The 2024-03-31 day in Berlin is only 23 hours long
+      const period = new Period('2024-03-30', '2024-03-31', Bounds.IncludeAll, { zone: 'Europe/Berlin' });
+      const canonical = period.canonicalize();
+
+      expect(canonical.toString()).toBe('[2024-03-30, 2024-04-01)');
+      expect(canonical.durationInDays).toBe(2);
+    });
+
+    test('canonicalize gives the empty period when no whole day is covered', () => {
+      const period = new Period('2024-01-01', '2024-01-02', Bounds.ExcludeAll);
+
+      expect(period.canonicalize().isEmpty()).toBe(true);
+      expect(period.canonicalize(Bounds.IncludeAll).isEmpty()).toBe(true);
+      expect(Period.fromDay('2024-01-01').canonicalize(Bounds.IncludeAll).toString()).toBe('[2024-01-01, 2024-01-01]');
+    });
+
+    test('continuous semantics keep bounds significant by default', () => {
+      const a = new Period('2024-01-01', '2024-01-05', Bounds.ExcludeStartIncludeEnd);
+      const b = new Period('2024-01-02', '2024-01-06', Bounds.IncludeStartExcludeEnd);
+
+      expect(PeriodSettings.semantics).toBe(Semantics.Continuous);
+      expect(a.equals(b)).toBe(false);
+      expect(a.key()).not.toBe(b.key());
+    });
+
+    test('discrete semantics compare the days covered', () => {
+      PeriodSettings.semantics = Semantics.Discrete;
+      const a = new Period('2024-01-01', '2024-01-05', Bounds.ExcludeStartIncludeEnd);
+      const b = new Period('2024-01-02', '2024-01-06', Bounds.IncludeStartExcludeEnd);
+      const c = new Period('2024-01-02', '2024-01-05', Bounds.IncludeAll);
+
+      expect(a.equals(b)).toBe(true);
+      expect(b.equals(c)).toBe(true);
+      expect(a.key()).toBe(b.key());
+      expect(new Set([a.key(), b.key(), c.key()]).size).toBe(1);
+      expect(a.contains(c)).toBe(true);
+    });
+
+    test('discrete semantics count covered days', () => {
+      const closed = new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll);
+      const open = new Period('2024-01-01', '2024-01-05', Bounds.ExcludeAll);
+
+      expect(closed.durationInDays).toBe(4);
+
+      PeriodSettings.semantics = Semantics.Discrete;
+      expect(closed.durationInDays).toBe(5);
+      expect(open.durationInDays).toBe(3);
+      expect(closed.getDuration().days).toBe(5);
+      expect(new Period('2024-01-01', '2024-01-02', Bounds.ExcludeAll).durationInDays).toBe(0);
+    });
+
+    test('discrete set operations agree on the days covered', () => {
+      PeriodSettings.semantics = Semantics.Discrete;
+      const a = new Period('2024-01-01', '2024-01-04', Bounds.IncludeAll);        // Jan 1 - 4
+      const b = new Period('2024-01-04', '2024-01-09', Bounds.ExcludeStartIncludeEnd); // Jan 5 - 9
+
+      expect(a.overlaps(b)).toBe(false);
+      expect(a.intersection(b).isEmpty()).toBe(true);
+      expect(a.union(b)!.toString()).toBe('[2024-01-01, 2024-01-10)');
+      expect(a.gap(b)).toBeNull();
+    });
+
+    test('withSemantics restores the previous setting', () => {
+      const a = new Period('2024-01-01', '2024-01-05', Bounds.ExcludeStartIncludeEnd);
+      const b = new Period('2024-01-02', '2024-01-06');
+
+      expect(PeriodSettings.withSemantics(Semantics.Discrete, () => a.equals(b))).toBe(true);
+      expect(PeriodSettings.semantics).toBe(Semantics.Continuous);
+      expect(a.equals(b)).toBe(false);
+    });
+  });
+
+
+  describe('Period Subtraction', () => {
+    const month = new Period('2024-01-01', '2024-01-31');
+
+    test('removing the middle leaves two periods', () => {
+      const result = month.subtract(new Period('2024-01-10', '2024-01-15'));
+
+      expect(result.count()).toBe(2);
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-10)');
+      expect(result.get(1).toString()).toBe('[2024-01-15, 2024-01-31)');
+    });
+
+    test('removing one end leaves one period', () => {
+      const result = month.subtract(new Period('2024-01-20', '2024-02-10'));
+
+      expect(result.count()).toBe(1);
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-20)');
+    });
+
+    test('removing a covering period leaves nothing', () => {
+      expect(month.subtract(new Period('2023-12-01', '2024-02-01')).isEmpty()).toBe(true);
+    });
+
+    test('removing a separate period leaves the period unchanged', () => {
+      const result = month.subtract(new Period('2024-03-01', '2024-03-10'));
+
+      expect(result.count()).toBe(1);
+      expect(result.get(0)).toBe(month);
+    });
+
+    test('cut points complement the removed bounds', () => {
+      const closed = new Period('2024-01-01', '2024-01-31', Bounds.IncludeAll);
+      const result = closed.subtract(new Period('2024-01-10', '2024-01-15', Bounds.ExcludeStartIncludeEnd));
+
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-10]');
+      expect(result.get(1).toString()).toBe('(2024-01-15, 2024-01-31]');
+    });
+  });
+
+
+  describe('ISO 8601 Intervals', () => {
+    test('parse() reads start/end, start/duration and duration/end', () => {
+      expect(Period.parse('2024-01-01/2024-02-01').toString()).toBe('[2024-01-01, 2024-02-01)');
+      expect(Period.parse('2024-01-31/P1M').toString()).toBe('[2024-01-31, 2024-02-29)');
+      expect(Period.parse('P1W/2024-03-01').toString()).toBe('[2024-02-23, 2024-03-01)');
+      expect(Period.parse('2024-01-01--2024-01-08').toString()).toBe('[2024-01-01, 2024-01-08)');
+    });
+
+    test('parse() completes abbreviated ends from the start', () => {
+      expect(Period.parse('2024-01-01/05').toString()).toBe('[2024-01-01, 2024-01-05)');
+      expect(Period.parse('2024-01-20/02-03').toString()).toBe('[2024-01-20, 2024-02-03)');
+      expect(Period.parse('2024-01-01T09:00Z/10:30').toString()).toBe('[2024-01-01T09:00, 2024-01-01T10:30)');
+    });
+
+    test('parse() detects the precision the endpoints need', () => {
+      expect(Period.parse('2024-01-01/P1D').precision).toBe(Precision.Day);
+      expect(Period.parse('2024-01-01T09:00:00Z/PT1H').precision).toBe(Precision.Hour);
+      expect(Period.parse('2024-01-01T09:00:30Z/PT1M').precision).toBe(Precision.Second);
+      expect(Period.parse('2024-01-01/P1D', { precision: Precision.Hour }).precision).toBe(Precision.Hour);
+    });
+
+    test('parse() accepts bounds and zones', () => {
+      const closed = Period.parse('2024-01-01/2024-01-31', Bounds.IncludeAll);
+      const berlin = Period.parse('2024-03-30/P2D', { zone: 'Europe/Berlin' });
+
+      expect(closed.toString()).toBe('[2024-01-01, 2024-01-31]');
+      expect(berlin.precision).toBe(Precision.Day);
+      expect(berlin.zone).toBe('Europe/Berlin');
+      expect(berlin.start.toISOString()).toBe('2024-03-29T23:00:00.000Z');
+      expect(berlin.end.toISOString()).toBe('2024-03-31T22:00:00.000Z');
+    });
+
+    test('parse() rejects malformed intervals', () => {
+      expect(() => Period.parse('2024-01-01')).toThrow('Invalid ISO 8601 interval');
+      expect(() => Period.parse('P1D/P2D')).toThrow('Invalid ISO 8601 interval');
+      expect(() => Period.parse('2024-01-01/nonsense')).toThrow('Invalid ISO 8601 interval');
+      expect(() => Period.parse('2024-01-01/P1X')).toThrow('Invalid ISO 8601 duration');
+    });
+
+    test('toISOInterval() writes the half-open form covering the same units', () => {
+      expect(new Period('2024-01-01', '2024-02-01').toISOInterval()).toBe('2024-01-01/2024-02-01');
+      expect(new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll).toISOInterval()).toBe('2024-01-01/2024-01-06');
+      expect(new Period('2024-01-01', '2024-01-05', Bounds.ExcludeStartIncludeEnd).toISOInterval()).toBe('2024-01-02/2024-01-06');
+      expect(() => new Period('2024-01-01', '2024-01-02', Bounds.ExcludeAll).toISOInterval()).toThrow('covers no whole unit');
+    });
+
+    test('toISOInterval() writes times with UTC or the zone offset', () => {
+      const utc = new Period('2024-01-01T09:00:00Z', '2024-01-01T10:30:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute });
+      const berlin = Period.parse('2024-03-30T09:00/2024-04-01T09:00', { zone: 'Europe/Berlin' });
+      const day = Period.fromDay('2024-03-31', { zone: 'Europe/Berlin' });
+
+      expect(utc.toISOInterval()).toBe('2024-01-01T09:00Z/2024-01-01T10:30Z');
+      expect(berlin.toISOInterval()).toBe('2024-03-30T09:00+01:00/2024-04-01T09:00+02:00');
+      expect(day.toISOInterval()).toBe('2024-03-31/2024-04-01');
+    });
+
+    test('parse() reads toISOInterval() back', () => {
+      const periods = [
+        new Period('2024-01-01', '2024-02-01'),
+        new Period('2024-01-01T09:00:00Z', '2024-01-01T10:30:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute }),
+        Period.fromDay('2024-03-31', { zone: 'Europe/Berlin' })
+      ];
+
+      for (const period of periods) {
+        expect(Period.parse(period.toISOInterval(), { zone: period.zone }).equals(period)).toBe(true);
+      }
+    });
+  });
+
+  describe('Unbounded Periods', () => {
+    const goLive = new Date('2024-06-01T00:00:00.000Z');
+
+    test('from(), until() and all() have infinite endpoints', () => {
+      const contract = Period.from('2024-01-01');
+      const legacy = Period.until(goLive);
+      const always = Period.all();
+
+      expect(contract.endTime).toBe(Infinity);
+      expect(legacy.startTime).toBe(-Infinity);
+      expect([always.startTime, always.endTime]).toEqual([-Infinity, Infinity]);
+      expect(contract.isBounded()).toBe(false);
+      expect(Period.fromMonth(2024, 1).isBounded()).toBe(true);
+    });
+
+    test('infinite endpoints are always excluded', () => {
+      expect(Period.from('2024-01-01', Bounds.IncludeAll).bounds).toBe(Bounds.IncludeStartExcludeEnd);
+      expect(Period.until(goLive).bounds).toBe(Bounds.ExcludeAll);
+      expect(Period.until(goLive, Bounds.IncludeAll).bounds).toBe(Bounds.ExcludeStartIncludeEnd);
+      expect(Period.all().bounds).toBe(Bounds.ExcludeAll);
+      expect(() => new Period(Infinity, Infinity)).toThrow('Start date must not be after end date');
+    });
+
+    test('format() uses the ISO 8601-2 .. notation', () => {
+      expect(Period.from('2024-01-01').toString()).toBe('[2024-01-01, ..)');
+      expect(Period.until(goLive, Bounds.IncludeAll).toString()).toBe('(.., 2024-06-01]');
+      expect(Period.all().format('short')).toBe('(.., ..)');
+      expect(Period.from('2024-01-15T09:30:00Z', { precision: Precision.Minute }).toString()).toBe('[2024-01-15T09:30, ..)');
+      expect(Period.from('2024-01-15').toDisplayString()).toBe('Since Jan 15, 2024');
+      expect(Period.until(goLive).toDisplayString()).toBe('Until Jun 1, 2024');
+      expect(Period.all().toDisplayString()).toBe('All time');
+    });
+
+    test('overlaps() and contains() reach to infinity', () => {
+      const contract = Period.from('2024-01-01');
+      const legacy = Period.until(goLive);
+
+      expect(contract.overlaps(legacy)).toBe(true);
+      expect(contract.overlaps(Period.fromYear(2099))).toBe(true);
+      expect(legacy.overlaps(Period.fromYear(2025))).toBe(false);
+      expect(contract.contains(Period.from('2024-03-01'))).toBe(true);
+      expect(Period.from('2024-03-01').contains(contract)).toBe(false);
+      expect(Period.all().contains(contract)).toBe(true);
+      expect(Period.all().contains(Period.all())).toBe(true);
+      expect(legacy.containsDate(new Date('1900-01-01'))).toBe(true);
+      expect(legacy.containsDate(goLive)).toBe(false);
+    });
+
+    test('intersection(), union() and gap() with open ends', () => {
+      const contract = Period.from('2024-01-01');
+      const legacy = Period.until(goLive);
+
+      expect(contract.intersection(legacy).toString()).toBe('[2024-01-01, 2024-06-01)');
+      expect(Period.all().intersection(Period.fromYear(2024)).toString()).toBe('[2024-01-01, 2025-01-01)');
+      expect(contract.union(legacy)?.toString()).toBe('(.., ..)');
+      expect(Period.until('2024-01-01').gap(Period.from(goLive))?.toString()).toBe('[2024-01-01, 2024-06-01)');
+      expect(legacy.relation(contract)).toBe('overlaps');
+      expect(Period.all().relation(Period.all())).toBe('equals');
+    });
+
+    test('durations are infinite', () => {
+      expect(Period.from('2024-01-01').durationInDays).toBe(Infinity);
+      expect(Period.all().getDuration().milliseconds).toBe(Infinity);
+      expect(Period.from('2024-01-31').move(DurationInterval.fromMonths(1)).toString()).toBe('[2024-02-29, ..)');
+    });
+
+    test('discrete semantics treat open ends as canonical', () => {
+      PeriodSettings.withSemantics(Semantics.Discrete, () => {
+        const legacy = Period.until('2024-01-05', Bounds.IncludeAll);
+
+        expect(legacy.canonicalize().toString()).toBe('(.., 2024-01-06)');
+        expect(legacy.overlaps(Period.from('2024-01-05'))).toBe(true);
+        expect(legacy.union(Period.from('2024-01-06', Bounds.IncludeAll))?.equals(Period.all())).toBe(true);
+        expect(legacy.equals(Period.until('2024-01-06'))).toBe(true);
+      });
+    });
+
+    test('ISO 8601 intervals and JSON keep open endpoints', () => {
+      expect(Period.from('2024-01-01').toISOInterval()).toBe('2024-01-01/..');
+      expect(Period.until(goLive, Bounds.IncludeAll).toISOInterval()).toBe('../2024-06-02');
+      expect(Period.parse('2024-01-01/..').equals(Period.from('2024-01-01'))).toBe(true);
+      expect(Period.parse('../..').equals(Period.all())).toBe(true);
+      expect(Period.parse('../2024-03-01T09:30Z').toString()).toBe('(.., 2024-03-01T09:30)');
+      expect(() => Period.parse('P1D/..')).toThrow('Invalid ISO 8601 interval');
+
+      const json = Period.until(goLive).toJSON();
+      expect(json.start).toBe('..');
+      expect(Period.fromJSON(JSON.stringify(json)).equals(Period.until(goLive))).toBe(true);
+    });
+  });
+
+  describe('Empty and Single-Instant Periods', () => {
+    const jan5 = '2024-01-05';
+
+    test('equal endpoints give an instant with IncludeAll and the empty period otherwise', () => {
+      const instant = new Period(jan5, jan5, Bounds.IncludeAll);
+      const empty = new Period(jan5, jan5);
+
+      expect(instant.isInstant()).toBe(true);
+      expect(instant.isEmpty()).toBe(false);
+      expect(instant.containsDate(new Date(jan5))).toBe(true);
+      expect(empty.isEmpty()).toBe(true);
+      expect(empty.containsDate(new Date(jan5))).toBe(false);
+      expect(new Period(jan5, jan5, Bounds.ExcludeAll).isEmpty()).toBe(true);
+    });
+
+    test('named constructors', () => {
+      expect(Period.empty().isEmpty()).toBe(true);
+      expect(Period.instant('2024-01-15T09:30:00Z').toString()).toBe('[2024-01-15T09:30, 2024-01-15T09:30]');
+      expect(Period.instant('2024-01-15').precision).toBe(Precision.Day);
+    });
+
+    test('all empty periods are equal', () => {
+      const a = new Period('2024-01-01', '2024-01-01');
+      const b = new Period('2024-03-01', '2024-03-01', Bounds.ExcludeAll);
+
+      expect(a.equals(b)).toBe(true);
+      expect(a.key()).toBe(b.key());
+      expect(a.equals(Period.instant('2024-01-01'))).toBe(false);
+    });
+
+    test('intersection() is never null', () => {
+      const a = new Period('2024-01-01', '2024-01-10');
+      const b = new Period('2024-02-01', '2024-02-10');
+      const c = new Period('2024-01-05', '2024-03-01');
+
+      expect(a.intersection(b).isEmpty()).toBe(true);
+      expect(a.intersection(b).union(c)!.equals(c)).toBe(true);
+      expect(a.intersection(b).intersection(c).isEmpty()).toBe(true);
+      expect(a.intersection(c).intersection(b).isEmpty()).toBe(true);
+    });
+
+    test('the empty period overlaps nothing and is contained in everything', () => {
+      const empty = Period.empty();
+      const period = new Period('1970-01-01', '1970-01-10');
+
+      expect(empty.overlaps(period)).toBe(false);
+      expect(period.overlaps(empty)).toBe(false);
+      expect(period.contains(empty)).toBe(true);
+      expect(empty.contains(period)).toBe(false);
+      expect(empty.contains(Period.empty())).toBe(true);
+      expect(period.union(empty)).toBe(period);
+      expect(empty.gap(period)).toBeNull();
+      expect(period.subtract(empty).count()).toBe(1);
+      expect(empty.subtract(period).isEmpty()).toBe(true);
+    });
+
+    test('instants take part in set operations', () => {
+      const instant = Period.instant(jan5);
+      const before = new Period('2024-01-01', jan5);
+      const after = new Period(jan5, '2024-01-09', Bounds.ExcludeStartIncludeEnd);
+
+      expect(before.overlaps(instant)).toBe(false);
+      expect(before.union(instant)!.toString()).toBe('[2024-01-01, 2024-01-05]');
+      expect(before.gap(after)!.toString()).toBe('[2024-01-05, 2024-01-05]');
+      expect(new Period('2024-01-01', '2024-01-09').contains(instant)).toBe(true);
+      expect(before.contains(instant)).toBe(false);
+      expect(new Period('2024-01-01', '2024-01-09', Bounds.IncludeAll).subtract(before).map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-09]']);
+      expect(new Period('2024-01-01', '2024-01-09').subtract(new Period('2024-01-01', '2024-01-09', Bounds.ExcludeAll)).map(p => p.toString()))
+        .toEqual(['[2024-01-01, 2024-01-01]']);
+    });
+
+    test('formatting', () => {
+      expect(Period.empty().toString()).toBe('∅');
+      expect(Period.empty().toDisplayString()).toBe('Empty');
+      expect(Period.instant(jan5).toString()).toBe('[2024-01-05, 2024-01-05]');
+      expect(Period.instant(jan5).toDisplayString()).toBe('Jan 5, 2024');
+      expect(Period.instant(jan5).toISOInterval()).toBe('2024-01-05/2024-01-06');
+      expect(Period.fromJSON(JSON.stringify(Period.instant(jan5))).isInstant()).toBe(true);
+    });
+
+    test('discrete semantics: an instant covers its whole day', () => {
+      PeriodSettings.withSemantics(Semantics.Discrete, () => {
+        const instant = Period.instant(jan5);
+
+        expect(instant.durationInDays).toBe(1);
+        expect(instant.equals(Period.fromDay(jan5))).toBe(true);
+        expect(new Period('2024-01-01', '2024-01-02', Bounds.ExcludeAll).isEmpty()).toBe(true);
+        expect(new Period('2024-01-01', '2024-01-03').intersection(new Period('2024-01-05', '2024-01-09')).isEmpty()).toBe(true);
+      });
+    });
+  });
+
+  describe('Iteration and Splitting', () => {
+    const strings = (periods: Iterable<Period>) => [...periods].map(p => p.toString());
+
+    test('days() yields the calendar days clipped to the period', () => {
+      expect(strings(new Period('2024-01-30', '2024-02-02').days())).toEqual([
+        '[2024-01-30, 2024-01-31)', '[2024-01-31, 2024-02-01)', '[2024-02-01, 2024-02-02)'
+      ]);
+
+      const shift = new Period('2024-01-01T18:00:00Z', '2024-01-03T06:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour });
+      expect(strings(shift.days())).toEqual([
+        '[2024-01-01T18:00, 2024-01-02T00:00)', '[2024-01-02T00:00, 2024-01-03T00:00)', '[2024-01-03T00:00, 2024-01-03T06:00)'
+      ]);
+    });
+
+    test('first and last pieces inherit the bounds', () => {
+      expect(strings(new Period('2024-01-01', '2024-01-04', Bounds.ExcludeStartIncludeEnd).days())).toEqual([
+        '(2024-01-01, 2024-01-02)', '[2024-01-02, 2024-01-03)', '[2024-01-03, 2024-01-04]'
+      ]);
+      expect(strings(new Period('2024-01-01', '2024-01-01T12:00:00Z', Bounds.ExcludeAll, { precision: Precision.Hour }).days()))
+        .toEqual(['(2024-01-01T00:00, 2024-01-01T12:00)']);
+    });
+
+    test('iteration is lazy, so periods without end work', () => {
+      const days = Period.from('2024-01-01').days();
+
+      expect(days.next().value.toString()).toBe('[2024-01-01, 2024-01-02)');
+      expect(days.next().value.toString()).toBe('[2024-01-02, 2024-01-03)');
+      expect(() => Period.until('2024-01-01').days()).toThrow('Cannot iterate a period without start');
+    });
+
+    test('empty periods yield nothing, instants themselves', () => {
+      expect(strings(Period.empty().days())).toEqual([]);
+      expect(strings(Period.instant('2024-01-05').weeks())).toEqual(['[2024-01-05, 2024-01-05]']);
+    });
+
+    test('weeks() start on Monday unless weekStart says otherwise', () => {
+      const january = Period.fromMonth(2024, 1);
+
+      expect(strings(january.weeks())).toEqual([
+        '[2024-01-01, 2024-01-08)', '[2024-01-08, 2024-01-15)', '[2024-01-15, 2024-01-22)',
+        '[2024-01-22, 2024-01-29)', '[2024-01-29, 2024-02-01)'
+      ]);
+      expect(strings(january.weeks({ weekStart: Weekday.Sunday }))[0]).toBe('[2024-01-01, 2024-01-07)');
+      expect([...january.weeks({ weekStart: Weekday.Sunday })]).toHaveLength(5);
+    });
+
+    test('months() and quarters() cut on calendar boundaries', () => {
+      const period = new Period('2024-02-15', '2024-08-10');
+
+      expect(strings(period.months())).toEqual([
+        '[2024-02-15, 2024-03-01)', '[2024-03-01, 2024-04-01)', '[2024-04-01, 2024-05-01)',
+        '[2024-05-01, 2024-06-01)', '[2024-06-01, 2024-07-01)', '[2024-07-01, 2024-08-01)', '[2024-08-01, 2024-08-10)'
+      ]);
+      expect(strings(period.quarters())).toEqual(['[2024-02-15, 2024-04-01)', '[2024-04-01, 2024-07-01)', '[2024-07-01, 2024-08-10)']);
+      expect([...Period.fromYear(2024).quarters()].map(q => q.durationInDays)).toEqual([91, 91, 92, 92]);
+    });
+
+    test('pieces follow the zone and keep payloads', () => {
+      const march = Period.fromMonth(2024, 3, { zone: 'Europe/Berlin' });
+      const days = [...march.days()];
+
+      expect(days).toHaveLength(31);
+      expect(days[0].endTime - days[0].startTime).toBe(24 * 3600000);
+      expect(days[30].endTime - days[30].startTime).toBe(23 * 3600000);
+      expect(days[30].zone).toBe('Europe/Berlin');
+
+      const booking = new TaggedPeriod('2024-01-01', '2024-01-03', 'room 1');
+      expect([...booking.days()].map(day => (day as TaggedPeriod<string>).payload)).toEqual(['room 1', 'room 1']);
+    });
+
+    test('split() cuts pieces of a duration, the last may be shorter', () => {
+      const january = Period.fromMonth(2024, 1, Bounds.IncludeAll);
+
+      expect(january.split(DurationInterval.fromWeeks(1)).map(p => p.toString())).toEqual([
+        '[2024-01-01, 2024-01-08)', '[2024-01-08, 2024-01-15)', '[2024-01-15, 2024-01-22)',
+        '[2024-01-22, 2024-01-29)', '[2024-01-29, 2024-02-01]'
+      ]);
+      expect(new Period('2024-01-31', '2024-05-15').split(DurationInterval.fromMonths(1)).map(p => p.toString())).toEqual([
+        '[2024-01-31, 2024-02-29)', '[2024-02-29, 2024-03-31)', '[2024-03-31, 2024-04-30)', '[2024-04-30, 2024-05-15)'
+      ]);
+      expect(() => january.split(new DurationInterval(0))).toThrow('Split duration must be positive');
+      expect(() => Period.from('2024-01-01').split(DurationInterval.fromDays(1))).toThrow('Cannot split an unbounded period');
+    });
+
+    test('split() needs at least one precision unit per piece', () => {
+      const twoDays = new Period('2024-01-01', '2024-01-03');
+      const hourly = new Period('2024-01-01T00:00:00Z', '2024-01-01T12:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour });
+
+      expect(() => twoDays.split(DurationInterval.fromHours(12))).toThrow('Split duration PT12H is shorter than the period precision');
+      expect(hourly.split(DurationInterval.fromHours(12)).map(p => p.toString())).toEqual(['[2024-01-01T00:00, 2024-01-01T12:00)']);
+      expect(twoDays.split(DurationInterval.fromHours(36)).map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-02)', '[2024-01-02, 2024-01-03)']);
+    });
+
+    test('chunk() divides into nearly equal whole units', () => {
+      const tenDays = new Period('2024-01-01', '2024-01-11');
+
+      expect(tenDays.chunk(3).map(p => p.durationInDays)).toEqual([3, 3, 4]);
+      expect(tenDays.chunk(1).map(p => p.toString())).toEqual([tenDays.toString()]);
+      expect(new Period('2024-01-01', '2024-01-03').chunk(5).count()).toBe(2);
+      expect(new Period('2024-01-01', '2024-01-03', Bounds.ExcludeAll).chunk(2).map(p => p.toString()))
+        .toEqual(['(2024-01-01, 2024-01-02)', '[2024-01-02, 2024-01-03)']);
+      expect(() => tenDays.chunk(0)).toThrow('Chunk count must be a positive integer');
+    });
+  });
 });
@@ -0,0 +1,201 @@
+/**
+ * Tests for RFC 5545 recurrence rules
+ * Expansion, RRULE parsing and emitting, window clipping and zones
+ */
+
+import { Period, RecurrenceRule, Frequency, Weekday, DurationInterval, Bounds, Precision } from '../src/index';
+
+const days = (periods: Iterable<Period>) => [...periods].map(p => p.toString());
+const starts = (periods: Iterable<Period>) => [...periods].map(p => p.start.toISOString());
+
+describe('RecurrenceRule', () => {
+  describe('Expansion', () => {
+    test('weekly standups on several weekdays keep the time of day', () => {
+      const standups = new RecurrenceRule({
+        frequency: Frequency.Weekly,
+        start: Date.UTC(2024, 0, 1, 9),
+        duration: DurationInterval.fromMinutes(15),
+        byDay: [Weekday.Monday, Weekday.Wednesday, Weekday.Friday]
+      });
+
+      const periods = standups.take(5);
+      expect(starts(periods)).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z',
+        '2024-01-05T09:00:00.000Z',
+        '2024-01-08T09:00:00.000Z',
+        '2024-01-10T09:00:00.000Z'
+      ]);
+      expect(periods[0].end.toISOString()).toBe('2024-01-01T09:15:00.000Z');
+      expect(periods[0].precision).toBe(Precision.Minute);
+    });
+
+    test('monthly billing on the last day of the month', () => {
+      const billing = RecurrenceRule.parse('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3', { start: '2024-01-31' });
+
+      expect(days(billing)).toEqual(['[2024-01-31, 2024-02-01)', '[2024-02-29, 2024-03-01)', '[2024-03-31, 2024-04-01)']);
+    });
+
+    test('a start day missing from a month skips that month', () => {
+      const rule = RecurrenceRule.parse('FREQ=MONTHLY;COUNT=3', { start: '2024-01-31' });
+
+      expect(days(rule)).toEqual(['[2024-01-31, 2024-02-01)', '[2024-03-31, 2024-04-01)', '[2024-05-31, 2024-06-01)']);
+    });
+
+    test('last Friday of each quarter', () => {
+      const rule = RecurrenceRule.parse('FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR;COUNT=4', { start: '2024-03-01' });
+
+      expect(days(rule)).toEqual([
+        '[2024-03-29, 2024-03-30)',
+        '[2024-06-28, 2024-06-29)',
+        '[2024-09-27, 2024-09-28)',
+        '[2024-12-27, 2024-12-28)'
+      ]);
+    });
+
+    test('BYSETPOS picks the last working day of each month', () => {
+      const rule = RecurrenceRule.parse('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3', { start: '2024-01-01' });
+
+      expect(days(rule)).toEqual(['[2024-01-31, 2024-02-01)', '[2024-02-29, 2024-03-01)', '[2024-03-29, 2024-03-30)']);
+    });
+
+    test('yearly rules repeat the start date and skip missing leap days', () => {
+      const rule = new RecurrenceRule({ frequency: Frequency.Yearly, start: '2024-02-29', count: 2 });
+      const nthWeekday = RecurrenceRule.parse('FREQ=YEARLY;BYDAY=1MO;COUNT=2', { start: '2024-01-01' });
+
+      expect(days(rule)).toEqual(['[2024-02-29, 2024-03-01)', '[2028-02-29, 2028-03-01)']);
+      expect(days(nthWeekday)).toEqual(['[2024-01-01, 2024-01-02)', '[2025-01-06, 2025-01-07)']);
+    });
+
+    test('UNTIL is inclusive and EXDATE removes occurrences', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;UNTIL=20240105', { start: '2024-01-01', exdates: ['2024-01-03'] });
+
+      expect(days(rule)).toEqual([
+        '[2024-01-01, 2024-01-02)',
+        '[2024-01-02, 2024-01-03)',
+        '[2024-01-04, 2024-01-05)',
+        '[2024-01-05, 2024-01-06)'
+      ]);
+    });
+
+    test('COUNT includes excluded occurrences', () => {
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;COUNT=3', { start: '2024-01-01', exdates: ['2024-01-08'] });
+
+      expect(days(rule)).toEqual(['[2024-01-01, 2024-01-02)', '[2024-01-15, 2024-01-16)']);
+    });
+
+    test('occurrences before a start that does not match the rule are skipped', () => {
+      // 2024-01-03 is a Wednesday
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=MO;COUNT=2', { start: '2024-01-03' });
+
+      expect(days(rule)).toEqual(['[2024-01-08, 2024-01-09)', '[2024-01-15, 2024-01-16)']);
+    });
+
+    test('expansion is lazy for unlimited rules', () => {
+      const daily = new RecurrenceRule({ frequency: Frequency.Daily, start: '2024-01-01', bounds: Bounds.IncludeAll });
+      const seen: Period[] = [];
+
+      for (const period of daily) {
+        seen.push(period);
+        if (seen.length === 3) break;
+      }
+
+      expect(days(seen)).toEqual(['[2024-01-01, 2024-01-02]', '[2024-01-02, 2024-01-03]', '[2024-01-03, 2024-01-04]']);
+      expect(daily.take(0)).toEqual([]);
+    });
+  });
+
+  describe('Window Clipping', () => {
+    test('between() clips occurrences to the window', () => {
+      const rule = new RecurrenceRule({ frequency: Frequency.Weekly, start: '2024-01-01', duration: DurationInterval.fromDays(3) });
+
+      const sequence = rule.between(new Period('2024-01-02', '2024-01-16'));
+
+      expect(sequence.map(p => p.toString())).toEqual([
+        '[2024-01-02, 2024-01-04)',
+        '[2024-01-08, 2024-01-11)',
+        '[2024-01-15, 2024-01-16)'
+      ]);
+    });
+
+    test('between() honours COUNT counted from the start', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;COUNT=5', { start: '2024-01-01' });
+
+      expect(rule.between(new Period('2024-01-04', '2024-02-01')).count()).toBe(2);
+      expect(rule.between(new Period('2024-02-01', '2024-03-01')).isEmpty()).toBe(true);
+    });
+  });
+
+  describe('Time Zones', () => {
+    test('occurrences keep the wall-clock time across DST', () => {
+      const rule = new RecurrenceRule({
+        frequency: Frequency.Weekly,
+        start: '2024-03-25T09:00',
+        duration: DurationInterval.fromHours(1),
+        zone: 'Europe/Berlin',
+        count: 2
+      });
+
+      expect(starts(rule)).toEqual(['2024-03-25T08:00:00.000Z', '2024-04-01T07:00:00.000Z']);
+      expect(rule.take(1)[0].zone).toBe('Europe/Berlin');
+    });
+  });
+
+  describe('RRULE Strings', () => {
+    test('toRRULE() writes the rule parts', () => {
+      const rule = new RecurrenceRule({
+        frequency: Frequency.Monthly,
+        start: '2024-03-01',
+        interval: 3,
+        byDay: [{ weekday: Weekday.Friday, nth: -1 }],
+        until: '2025-12-31'
+      });
+
+      expect(rule.toRRULE()).toBe('FREQ=MONTHLY;INTERVAL=3;UNTIL=20251231;BYDAY=-1FR');
+    });
+
+    test('toString() and parse() round-trip with DTSTART, DURATION and EXDATE', () => {
+      const text = [
+        'DTSTART;TZID=Europe/Berlin:20240101T090000',
+        'DURATION:PT30M',
+        'RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=MO,TH',
+        'EXDATE;TZID=Europe/Berlin:20240104T090000'
+      ].join('\n');
+
+      const rule = RecurrenceRule.parse(text);
+      const reparsed = RecurrenceRule.parse(rule.toString());
+
+      expect(rule.toString()).toBe(text);
+      expect(starts(rule)).toEqual(['2024-01-01T08:00:00.000Z', '2024-01-08T08:00:00.000Z', '2024-01-11T08:00:00.000Z']);
+      expect(starts(reparsed)).toEqual(starts(rule));
+    });
+
+    test('all-day UTC rules are written with dates', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;COUNT=2', { start: '2024-01-01', exdates: ['2024-01-02'] });
+
+      expect(rule.toString()).toBe('DTSTART;VALUE=DATE:20240101\nDURATION:P1D\nRRULE:FREQ=DAILY;COUNT=2\nEXDATE;VALUE=DATE:20240102');
+    });
+
+    test('UTC date-times keep the Z suffix', () => {
+      const rule = RecurrenceRule.parse('DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20240103T090000Z', {
+        duration: DurationInterval.fromHours(1)
+      });
+
+      expect(rule.toRRULE()).toBe('FREQ=DAILY;UNTIL=20240103T090000Z');
+      expect(starts(rule)).toHaveLength(3);
+    });
+  });
+
+  describe('Validation', () => {
+    test('rejects invalid and unsupported rules', () => {
+      expect(() => RecurrenceRule.parse('FREQ=DAILY;COUNT=2;UNTIL=20240105', { start: '2024-01-01' })).toThrow('Count and until cannot be combined');
+      expect(() => RecurrenceRule.parse('FREQ=WEEKLY;BYMONTHDAY=1', { start: '2024-01-01' })).toThrow('weekly');
+      expect(() => RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=2MO', { start: '2024-01-01' })).toThrow('Numbered weekdays');
+      expect(() => RecurrenceRule.parse('FREQ=MONTHLY;BYSETPOS=1', { start: '2024-01-01' })).toThrow('Set positions');
+      expect(() => RecurrenceRule.parse('FREQ=YEARLY;BYMONTH=1', { start: '2024-01-01' })).toThrow('Unsupported RRULE part: BYMONTH');
+      expect(() => RecurrenceRule.parse('FREQ=HOURLY', { start: '2024-01-01' })).toThrow('Unsupported frequency');
+      expect(() => RecurrenceRule.parse('FREQ=DAILY')).toThrow('needs a start');
+      expect(() => RecurrenceRule.parse('DTSTART:20240101')).toThrow('Missing RRULE');
+    });
+  });
+});
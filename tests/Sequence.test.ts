@@ -3,7 +3,7 @@
  * Tests core functionality, performance, and edge cases
  */
 
-import { Sequence, Period, Bounds, DurationInterval } from '../src/index';
+import { Sequence, Period, Bounds, DurationInterval, Precision, PeriodSettings, Semantics, TaggedPeriod, Conflict, Weekday } from '../src/index';
 
 describe('Sequence Class', () => {
   // Test data setup
@@ -434,11 +434,12 @@ describe('Sequence Class', () => {
       expect(intersection.end).toEqual(new Date('2024-01-15T00:00:00.000Z'));
     });
 
-    test('subtract removes overlapping periods', () => {
+    test('subtract removes the overlapping days', () => {
       const result = sequence1.subtract(sequence2);
       
-      expect(result.count()).toBe(1); // Only feb1to15 remains (jan1to15 overlaps with jan10to25)
-      expect(result.first()).toEqual(feb1to15);
+      expect(result.count()).toBe(2); // jan1to15 is cut back to Jan 1-10, feb1to15 is untouched
+      expect(result.first()!.toString()).toBe('[2024-01-01, 2024-01-10)');
+      expect(result.last()).toEqual(feb1to15);
     });
 
     test('intersect with no overlaps returns empty sequence', () => {
@@ -716,9 +717,10 @@ describe('Sequence Class', () => {
         const sequence = new Sequence(period1, period2);
         const merged = sequence.merge();
         
-        // These should merge because period1 includes Jan 2 and period2 includes Jan 2
+        // These should merge because period1 includes Jan 2 and period2 includes Jan 2;
+        // the merged end comes from period2 and stays exclusive
         expect(merged.count()).toBe(1);
-        expect(merged.get(0).toString()).toBe('[2024-01-01, 2024-01-03]');
+        expect(merged.get(0).toString()).toBe('[2024-01-01, 2024-01-03)');
       });
 
       test('Complex seasonal boundaries - realistic scenario', () => {
@@ -842,4 +844,1038 @@ describe('Sequence Class', () => {
       });
     });
   });
+
+  describe('Sub-Day Precision', () => {
+    const options = { precision: Precision.Minute };
+
+    test('merge keeps sub-day periods apart within a single day', () => {
+      const morning = new Period('2024-01-15T09:00:00Z', '2024-01-15T12:00:00Z', Bounds.IncludeStartExcludeEnd, options);
+      const lunch = new Period('2024-01-15T12:00:00Z', '2024-01-15T13:00:00Z', Bounds.IncludeStartExcludeEnd, options);
+      const afternoon = new Period('2024-01-15T14:00:00Z', '2024-01-15T17:30:00Z', Bounds.IncludeStartExcludeEnd, options);
+
+      const merged = new Sequence(afternoon, lunch, morning).merge();
+
+      expect(merged.count()).toBe(2);
+      expect(merged.get(0).toString()).toBe('[2024-01-15T09:00, 2024-01-15T13:00)');
+      expect(merged.get(0).precision).toBe(Precision.Minute);
+      expect(merged.get(1).toString()).toBe('[2024-01-15T14:00, 2024-01-15T17:30)');
+    });
+
+    test('gaps and intersections keep sub-day precision', () => {
+      const shifts = new Sequence(
+        new Period('2024-01-15T06:00:00Z', '2024-01-15T14:00:00Z', Bounds.IncludeStartExcludeEnd, options),
+        new Period('2024-01-15T16:00:00Z', '2024-01-15T22:00:00Z', Bounds.IncludeStartExcludeEnd, options)
+      );
+      const cover = new Sequence(new Period('2024-01-15T12:00:00Z', '2024-01-15T18:00:00Z', Bounds.IncludeStartExcludeEnd, options));
+
+      expect(shifts.gaps().get(0).toString()).toBe('[2024-01-15T14:00, 2024-01-15T16:00)');
+      expect(shifts.intersect(cover).map(p => p.toString())).toEqual([
+        '[2024-01-15T12:00, 2024-01-15T14:00)',
+        '[2024-01-15T16:00, 2024-01-15T18:00)'
+      ]);
+    });
+  });
+
+
+  describe('Bounds-Correct Set Operations', () => {
+    test('intersect keeps the bounds of whichever period supplies each endpoint', () => {
+      const a = new Sequence(
+        new Period('2024-01-01', '2024-01-10', Bounds.IncludeAll),
+        new Period('2024-01-20', '2024-01-30', Bounds.ExcludeAll)
+      );
+      const b = new Sequence(
+        new Period('2024-01-05', '2024-01-25', Bounds.ExcludeStartIncludeEnd)
+      );
+
+      const result = a.intersect(b);
+
+      expect(result.count()).toBe(2);
+      expect(result.get(0).toString()).toBe('(2024-01-05, 2024-01-10]');
+      expect(result.get(1).toString()).toBe('(2024-01-20, 2024-01-25]');
+    });
+
+    test('intersect keeps a shared endpoint as a single instant', () => {
+      const a = new Sequence(new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll));
+      const b = new Sequence(new Period('2024-01-05', '2024-01-10', Bounds.IncludeAll));
+      const c = new Sequence(new Period('2024-01-05', '2024-01-10'));
+
+      expect(a.intersect(b).map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-05]']);
+      expect(a.intersect(c).get(0).isInstant()).toBe(true);
+      expect(new Sequence(new Period('2024-01-01', '2024-01-05')).intersect(c).isEmpty()).toBe(true);
+    });
+
+    test('gaps complement the bounds of the surrounding periods', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-10', '2024-01-15', Bounds.ExcludeAll),
+        new Period('2024-01-20', '2024-01-25', Bounds.IncludeStartExcludeEnd)
+      );
+
+      const gaps = sequence.gaps();
+
+      expect(gaps.count()).toBe(2);
+      expect(gaps.get(0).toString()).toBe('(2024-01-05, 2024-01-10]');
+      expect(gaps.get(1).toString()).toBe('[2024-01-15, 2024-01-20)');
+    });
+
+    test('merge keeps an inclusive end from the later period', () => {
+      const merged = new Sequence(
+        new Period('2024-01-01', '2024-01-10', Bounds.IncludeStartExcludeEnd),
+        new Period('2024-01-05', '2024-01-15', Bounds.ExcludeStartIncludeEnd)
+      ).merge();
+
+      expect(merged.count()).toBe(1);
+      expect(merged.get(0).toString()).toBe('[2024-01-01, 2024-01-15]');
+    });
+  });
+
+
+  describe('Discrete Semantics', () => {
+    afterEach(() => {
+      PeriodSettings.reset();
+    });
+
+    test('merge joins periods covering adjacent days', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-04', Bounds.IncludeAll),
+        new Period('2024-01-05', '2024-01-09', Bounds.IncludeStartExcludeEnd)
+      );
+
+      expect(sequence.merge().count()).toBe(2);
+
+      PeriodSettings.semantics = Semantics.Discrete;
+      const merged = sequence.merge();
+      expect(merged.count()).toBe(1);
+      expect(merged.get(0).toString()).toBe('[2024-01-01, 2024-01-09)');
+    });
+
+    test('gaps and total duration follow the semantics in use', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-04', Bounds.IncludeAll),
+        new Period('2024-01-06', '2024-01-09', Bounds.ExcludeAll)
+      );
+
+      expect(sequence.gaps().get(0).toString()).toBe('(2024-01-04, 2024-01-06]');
+      expect(sequence.totalDuration()).toBe(6 * 86400000);
+
+      PeriodSettings.semantics = Semantics.Discrete;
+      // Jan 5 and Jan 6 are uncovered; Jan 1-4 and Jan 7-8 are covered
+      expect(sequence.gaps().get(0).toString()).toBe('[2024-01-05, 2024-01-07)');
+      expect(sequence.totalDuration()).toBe(6 * 86400000);
+    });
+
+    test('intersect and equals compare covered days', () => {
+      PeriodSettings.semantics = Semantics.Discrete;
+      const a = new Sequence(new Period('2024-01-01', '2024-01-10', Bounds.ExcludeStartIncludeEnd));
+      const b = new Sequence(new Period('2024-01-10', '2024-01-20'));
+
+      // (Jan 1, Jan 10] and [Jan 10, Jan 20) share Jan 10
+      const result = a.intersect(b);
+      expect(result.count()).toBe(1);
+      expect(result.get(0).toString()).toBe('[2024-01-10, 2024-01-11)');
+
+      expect(a.equals(new Sequence(new Period('2024-01-02', '2024-01-10', Bounds.IncludeAll)))).toBe(true);
+    });
+
+    test('periods covering no whole day are ignored', () => {
+      PeriodSettings.semantics = Semantics.Discrete;
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-02', Bounds.ExcludeAll),
+        new Period('2024-01-05', '2024-01-07')
+      );
+
+      expect(sequence.merge().count()).toBe(1);
+      expect(sequence.gaps().isEmpty()).toBe(true);
+      expect(sequence.totalDuration()).toBe(2 * 86400000);
+    });
+  });
+
+
+  describe('Set Subtraction', () => {
+    test('subtracting a day splits the period around it', () => {
+      const booking = new Sequence(new Period('2024-01-01', '2024-01-31'));
+      const holiday = new Sequence(Period.fromDay('2024-01-10'));
+
+      const result = booking.subtract(holiday);
+
+      expect(result.count()).toBe(2);
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-10)');
+      expect(result.get(1).toString()).toBe('[2024-01-11, 2024-01-31)');
+    });
+
+    test('cut points complement the bounds of the removed period', () => {
+      const period = new Sequence(new Period('2024-01-01', '2024-01-31', Bounds.IncludeAll));
+      const removed = new Sequence(new Period('2024-01-10', '2024-01-20', Bounds.ExcludeAll));
+
+      const result = period.subtract(removed);
+
+      expect(result.count()).toBe(2);
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-10]');
+      expect(result.get(1).toString()).toBe('[2024-01-20, 2024-01-31]');
+    });
+
+    test('one period can be cut by several others', () => {
+      const period = new Sequence(new Period('2024-01-01', '2024-01-31'));
+      const removed = new Sequence(
+        new Period('2024-01-25', '2024-02-05'),
+        new Period('2023-12-20', '2024-01-03'),
+        new Period('2024-01-10', '2024-01-12'),
+        new Period('2024-01-11', '2024-01-15')
+      );
+
+      const result = period.subtract(removed);
+
+      expect(result.toArray().map(p => p.toString())).toEqual([
+        '[2024-01-03, 2024-01-10)',
+        '[2024-01-15, 2024-01-25)'
+      ]);
+    });
+
+    test('fully covered periods disappear', () => {
+      const periods = new Sequence(
+        new Period('2024-01-05', '2024-01-10'),
+        new Period('2024-01-12', '2024-01-14')
+      );
+      const cover = new Sequence(new Period('2024-01-01', '2024-01-20'));
+
+      expect(periods.subtract(cover).isEmpty()).toBe(true);
+    });
+
+    test('a shared inclusive endpoint is removed from the remainder', () => {
+      const period = new Sequence(new Period('2024-01-01', '2024-01-10', Bounds.IncludeAll));
+      const removed = new Sequence(new Period('2024-01-10', '2024-01-20', Bounds.IncludeAll));
+
+      expect(period.subtract(removed).get(0).toString()).toBe('[2024-01-01, 2024-01-10)');
+    });
+
+    test('overlapping input periods are each cut and kept in start order', () => {
+      const periods = new Sequence(
+        new Period('2024-01-01', '2024-01-20'),
+        new Period('2024-01-05', '2024-01-08')
+      );
+      const removed = new Sequence(new Period('2024-01-06', '2024-01-15'));
+
+      const result = periods.subtract(removed);
+
+      expect(result.toArray().map(p => p.toString())).toEqual([
+        '[2024-01-01, 2024-01-06)',
+        '[2024-01-05, 2024-01-06)',
+        '[2024-01-15, 2024-01-20)'
+      ]);
+    });
+
+    test('input kept in a custom order is cut like sorted input', () => {
+      const periods = new Sequence(
+        new Period('2024-07-01', '2024-07-20'),
+        new Period('2024-08-01', '2024-08-03')
+      ).sortByDuration();
+
+      const result = periods.subtract(new Sequence(new Period('2024-07-10', '2024-07-11')));
+
+      expect(result.toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-10)',
+        '[2024-07-11, 2024-07-20)',
+        '[2024-08-01, 2024-08-03)'
+      ]);
+    });
+
+    test('subtracting large sequences stays linear', () => {
+      const days = Array.from({ length: 20000 }, (_, i) => new Period(Date.UTC(2000, 0, 1 + 2 * i), Date.UTC(2000, 0, 2 + 2 * i)));
+      const year = new Sequence(new Period(Date.UTC(2000, 0, 1), Date.UTC(2110, 0, 1)));
+
+      const start = performance.now();
+      const result = year.subtract(Sequence.fromArray(days));
+      const time = performance.now() - start;
+
+      expect(result.count()).toBe(20000);
+      expect(time).toBeLessThan(1000);
+    });
+  });
+
+
+  describe('Symmetric Difference', () => {
+    test('returns the days covered by exactly one side', () => {
+      const planned = new Sequence(
+        new Period('2024-01-01', '2024-01-10'),
+        new Period('2024-01-20', '2024-01-25')
+      );
+      const actual = new Sequence(
+        new Period('2024-01-05', '2024-01-12'),
+        new Period('2024-01-20', '2024-01-25')
+      );
+
+      const result = planned.symmetricDifference(actual);
+
+      expect(result.toArray().map(p => p.toString())).toEqual([
+        '[2024-01-01, 2024-01-05)',
+        '[2024-01-10, 2024-01-12)'
+      ]);
+    });
+
+    test('is symmetric', () => {
+      const a = new Sequence(new Period('2024-01-01', '2024-01-10'), new Period('2024-02-01', '2024-02-05'));
+      const b = new Sequence(new Period('2024-01-08', '2024-01-15'));
+
+      expect(a.symmetricDifference(b).equals(b.symmetricDifference(a))).toBe(true);
+    });
+
+    test('overlapping input is merged before comparing', () => {
+      const a = new Sequence(new Period('2024-01-01', '2024-01-10'), new Period('2024-01-05', '2024-01-15'));
+      const b = new Sequence(new Period('2024-01-01', '2024-01-15'));
+
+      expect(a.symmetricDifference(b).isEmpty()).toBe(true);
+    });
+
+    test('input kept in a custom order gives disjoint periods in start order', () => {
+      const a = new Sequence(new Period('2024-07-01', '2024-07-20'), new Period('2024-08-01', '2024-08-03')).sortByDuration();
+      const b = new Sequence(new Period('2024-07-10', '2024-07-11'));
+
+      expect(a.symmetricDifference(b).toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-10)',
+        '[2024-07-11, 2024-07-20)',
+        '[2024-08-01, 2024-08-03)'
+      ]);
+    });
+
+    test('keeps bounds at the cut points', () => {
+      const a = new Sequence(new Period('2024-01-01', '2024-01-10', Bounds.IncludeAll));
+      const b = new Sequence(new Period('2024-01-05', '2024-01-15', Bounds.ExcludeAll));
+
+      const result = a.symmetricDifference(b);
+
+      expect(result.toArray().map(p => p.toString())).toEqual([
+        '[2024-01-01, 2024-01-05]',
+        '(2024-01-10, 2024-01-15)'
+      ]);
+    });
+
+    test('with an empty sequence returns the other side merged', () => {
+      const a = new Sequence(new Period('2024-01-01', '2024-01-10'), new Period('2024-01-05', '2024-01-15'));
+
+      const result = a.symmetricDifference(Sequence.empty());
+
+      expect(result.count()).toBe(1);
+      expect(result.get(0).toString()).toBe('[2024-01-01, 2024-01-15)');
+    });
+  });
+
+
+  describe('Complement', () => {
+    const q3 = new Period('2024-07-01', '2024-10-01');
+
+    test('includes the head and tail slack of the window', () => {
+      const bookings = new Sequence(
+        new Period('2024-07-10', '2024-07-20'),
+        new Period('2024-08-01', '2024-09-15')
+      );
+
+      const free = bookings.complement(q3);
+
+      expect(free.toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-10)',
+        '[2024-07-20, 2024-08-01)',
+        '[2024-09-15, 2024-10-01)'
+      ]);
+    });
+
+    test('works on overlapping and unmerged periods', () => {
+      const bookings = new Sequence(
+        new Period('2024-07-05', '2024-07-20'),
+        new Period('2024-07-10', '2024-07-12'),
+        new Period('2024-07-15', '2024-08-01'),
+        new Period('2024-08-01', '2024-08-10')
+      );
+
+      const free = bookings.complement(q3);
+
+      expect(free.toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-05)',
+        '[2024-08-10, 2024-10-01)'
+      ]);
+    });
+
+    test('works on periods kept in a custom order', () => {
+      const bookings = new Sequence(
+        new Period('2024-07-01', '2024-07-20'),
+        new Period('2024-08-01', '2024-08-03'),
+        new Period('2024-07-18', '2024-07-25')
+      ).sortByDuration();
+
+      expect(bookings.merge().toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-25)',
+        '[2024-08-01, 2024-08-03)'
+      ]);
+      expect(bookings.complement(q3).toArray().map(p => p.toString())).toEqual([
+        '[2024-07-25, 2024-08-01)',
+        '[2024-08-03, 2024-10-01)'
+      ]);
+    });
+
+    test('clips periods reaching outside the window', () => {
+      const bookings = new Sequence(
+        new Period('2024-06-01', '2024-07-15'),
+        new Period('2024-09-20', '2024-12-01')
+      );
+
+      const free = bookings.complement(q3);
+
+      expect(free.count()).toBe(1);
+      expect(free.get(0).toString()).toBe('[2024-07-15, 2024-09-20)');
+    });
+
+    test('is the whole window for an empty sequence and empty for a covering one', () => {
+      expect(Sequence.empty().complement(q3).get(0)).toBe(q3);
+      expect(new Sequence(new Period('2024-01-01', '2025-01-01')).complement(q3).isEmpty()).toBe(true);
+    });
+
+    test('complements the bounds of the covered periods', () => {
+      const bookings = new Sequence(new Period('2024-07-10', '2024-07-20', Bounds.IncludeAll));
+      const window = new Period('2024-07-01', '2024-07-31', Bounds.IncludeAll);
+
+      expect(bookings.complement(window).toArray().map(p => p.toString())).toEqual([
+        '[2024-07-01, 2024-07-10)',
+        '(2024-07-20, 2024-07-31]'
+      ]);
+    });
+  });
+
+
+  describe('Interval Index Queries', () => {
+    const bookings = new Sequence(
+      new Period('2024-05-01', '2024-05-10'),
+      new Period('2024-05-03', '2024-05-04'),
+      new Period('2024-04-01', '2024-06-01'),
+      new Period('2024-05-10', '2024-05-20', Bounds.IncludeAll),
+      new Period('2024-05-20', '2024-05-25', Bounds.ExcludeStartIncludeEnd)
+    );
+    const strings = (sequence: Sequence) => sequence.toArray().map(p => p.toString());
+
+    // Deterministic pseudo-random periods for comparing against linear scans
+    const randomSequence = (count: number) => {
+      let seed = 42;
+      const next = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+      const bounds = [Bounds.IncludeStartExcludeEnd, Bounds.ExcludeStartIncludeEnd, Bounds.IncludeAll, Bounds.ExcludeAll];
+      const periods: Period[] = [];
+      for (let i = 0; i < count; i++) {
+        const start = Date.UTC(2024, 0, 1 + Math.floor(next() * 365));
+        const days = 1 + Math.floor(next() * 30);
+        periods.push(new Period(start, start + days * 86400000, bounds[i % 4]));
+      }
+      return new Sequence(...periods);
+    };
+
+    test('at() finds the periods covering a date', () => {
+      expect(strings(bookings.at(new Date('2024-05-03T15:00:00Z')))).toEqual([
+        '[2024-04-01, 2024-06-01)',
+        '[2024-05-01, 2024-05-10)',
+        '[2024-05-03, 2024-05-04)'
+      ]);
+    });
+
+    test('at() respects bounds at the endpoints', () => {
+      expect(strings(bookings.at(Date.UTC(2024, 4, 20)))).toEqual([
+        '[2024-04-01, 2024-06-01)',
+        '[2024-05-10, 2024-05-20]'
+      ]);
+      expect(strings(bookings.at(Date.UTC(2024, 4, 25, 12)))).toEqual([
+        '[2024-04-01, 2024-06-01)',
+        '(2024-05-20, 2024-05-25]'
+      ]);
+      expect(bookings.at(Date.UTC(2024, 6, 1)).isEmpty()).toBe(true);
+    });
+
+    test('overlapping() finds the periods sharing days with a period', () => {
+      const week = new Period('2024-05-09', '2024-05-11');
+
+      expect(strings(bookings.overlapping(week))).toEqual([
+        '[2024-04-01, 2024-06-01)',
+        '[2024-05-01, 2024-05-10)',
+        '[2024-05-10, 2024-05-20]'
+      ]);
+    });
+
+    test('containedIn() finds the periods lying inside a period', () => {
+      const may = new Period('2024-05-01', '2024-05-20');
+
+      expect(strings(bookings.containedIn(may))).toEqual([
+        '[2024-05-01, 2024-05-10)',
+        '[2024-05-03, 2024-05-04)'
+      ]);
+      expect(strings(bookings.containedIn(new Period('2024-05-01', '2024-05-20', Bounds.IncludeAll)))).toEqual([
+        '[2024-05-01, 2024-05-10)',
+        '[2024-05-03, 2024-05-04)',
+        '[2024-05-10, 2024-05-20]'
+      ]);
+    });
+
+    test('queries agree with linear scans', () => {
+      const sequence = randomSequence(2000);
+      const probes = [Date.UTC(2024, 0, 1), Date.UTC(2024, 2, 15, 12), Date.UTC(2024, 6, 4), Date.UTC(2024, 11, 31)];
+
+      for (const probe of probes) {
+        expect(sequence.at(probe).toArray()).toEqual(sequence.filter(p => p.containsDate(probe)).toArray());
+      }
+
+      const window = new Period('2024-03-01', '2024-03-20', Bounds.ExcludeStartIncludeEnd);
+      expect(sequence.overlapping(window).toArray()).toEqual(sequence.filter(p => p.overlaps(window)).toArray());
+      expect(sequence.containedIn(window).toArray()).toEqual(
+        sequence.filter(p => ['starts', 'during', 'finishes', 'equals'].includes(p.relation(window))).toArray()
+      );
+    });
+
+    test('works on sequences kept in custom order', () => {
+      const byDuration = bookings.sortByDuration();
+
+      expect(strings(byDuration.at(Date.UTC(2024, 4, 3)))).toEqual([
+        '[2024-04-01, 2024-06-01)',
+        '[2024-05-01, 2024-05-10)',
+        '[2024-05-03, 2024-05-04)'
+      ]);
+    });
+
+    test('repeated lookups on large sequences are fast', () => {
+      const periods = Array.from({ length: 100000 }, (_, i) =>
+        new Period(Date.UTC(2000, 0, 1 + i), Date.UTC(2000, 0, 3 + i)));
+      const sequence = Sequence.fromArray(periods);
+      sequence.at(Date.UTC(2000, 0, 1)); // Build the index
+
+      const start = performance.now();
+      for (let i = 0; i < 10000; i++) {
+        expect(sequence.at(Date.UTC(2000, 0, 2 + i * 7)).count()).toBe(2);
+      }
+      const time = performance.now() - start;
+
+      expect(time).toBeLessThan(1000);
+    });
+  });
+
+
+  describe('Coverage Depth', () => {
+    const bookings = new Sequence(
+      new Period('2024-01-01', '2024-01-10'),
+      new Period('2024-01-05', '2024-01-15'),
+      new Period('2024-01-08', '2024-01-12'),
+      new Period('2024-01-20', '2024-01-25')
+    );
+    const steps = (sequence: Sequence<TaggedPeriod<number>>) => sequence.map(p => `${p.toString()} x${p.payload}`);
+
+    test('depth() is a step function over the covered days', () => {
+      expect(steps(bookings.depth())).toEqual([
+        '[2024-01-01, 2024-01-05) x1',
+        '[2024-01-05, 2024-01-08) x2',
+        '[2024-01-08, 2024-01-10) x3',
+        '[2024-01-10, 2024-01-12) x2',
+        '[2024-01-12, 2024-01-15) x1',
+        '[2024-01-20, 2024-01-25) x1'
+      ]);
+    });
+
+    test('depth() joins stretches of equal depth across touching periods', () => {
+      const chain = new Sequence(
+        new Period('2024-01-01', '2024-01-05'),
+        new Period('2024-01-05', '2024-01-09')
+      );
+
+      expect(steps(chain.depth())).toEqual(['[2024-01-01, 2024-01-09) x1']);
+    });
+
+    test('depth() respects bounds at shared endpoints', () => {
+      const closed = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-05', '2024-01-09', Bounds.IncludeAll)
+      );
+      const open = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.ExcludeAll),
+        new Period('2024-01-03', '2024-01-09', Bounds.ExcludeAll)
+      );
+
+      // The shared instant Jan 5 has depth 2 but no length
+      expect(steps(closed.depth())).toEqual([
+        '[2024-01-01, 2024-01-05) x1',
+        '[2024-01-05, 2024-01-05] x2',
+        '(2024-01-05, 2024-01-09] x1'
+      ]);
+      expect(steps(open.depth())).toEqual([
+        '(2024-01-01, 2024-01-03] x1',
+        '(2024-01-03, 2024-01-05) x2',
+        '[2024-01-05, 2024-01-09) x1'
+      ]);
+    });
+
+    test('maxDepth() finds the peak concurrency, shared instants included', () => {
+      expect(bookings.maxDepth()).toBe(3);
+      expect(Sequence.empty().maxDepth()).toBe(0);
+      expect(new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-05', '2024-01-09', Bounds.IncludeAll)
+      ).maxDepth()).toBe(2);
+    });
+
+    test('periodsWithDepthAtLeast() merges the matching stretches', () => {
+      expect(bookings.periodsWithDepthAtLeast(2).map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-12)']);
+      expect(bookings.periodsWithDepthAtLeast(1).map(p => p.toString())).toEqual([
+        '[2024-01-01, 2024-01-15)',
+        '[2024-01-20, 2024-01-25)'
+      ]);
+      expect(bookings.periodsWithDepthAtLeast(4).isEmpty()).toBe(true);
+    });
+
+    test('whereDepthExceeds() reports overbooking', () => {
+      expect(bookings.whereDepthExceeds(2).map(p => p.toString())).toEqual(['[2024-01-08, 2024-01-10)']);
+    });
+
+    test('depth of a large sequence agrees with per-day counting', () => {
+      const periods = Array.from({ length: 2000 }, (_, i) =>
+        new Period(Date.UTC(2024, 0, 1 + (i * 7) % 300), Date.UTC(2024, 0, 1 + (i * 7) % 300 + 1 + i % 9)));
+      const sequence = Sequence.fromArray(periods);
+
+      for (const segment of sequence.depth()) {
+        const day = segment.startTime;
+        expect(segment.payload).toBe(periods.filter(p => p.containsDate(day)).length);
+      }
+      expect(sequence.maxDepth()).toBe(Math.max(...sequence.depth().map(p => p.payload)));
+    });
+  });
+
+
+  describe('Conflict Detection', () => {
+    const bookings = new Sequence(
+      new Period('2024-01-01', '2024-01-10'),
+      new Period('2024-01-05', '2024-01-15'),
+      new Period('2024-01-08', '2024-01-12'),
+      new Period('2024-01-20', '2024-01-25')
+    );
+    const describeConflicts = (conflicts: Conflict<Period, Period>[]) =>
+      conflicts.map(c => `${c.indices[0]}-${c.indices[1]} ${c.intersection.toString()}`);
+
+    test('conflicts() reports every overlapping pair with its intersection', () => {
+      expect(describeConflicts(bookings.conflicts())).toEqual([
+        '0-1 [2024-01-05, 2024-01-10)',
+        '0-2 [2024-01-08, 2024-01-10)',
+        '1-2 [2024-01-08, 2024-01-12)'
+      ]);
+    });
+
+    test('conflicts() respects bounds at shared endpoints', () => {
+      const backToBack = new Sequence(
+        new Period('2024-01-01', '2024-01-05'),
+        new Period('2024-01-05', '2024-01-09')
+      );
+      const closed = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-04', '2024-01-09', Bounds.IncludeAll)
+      );
+
+      expect(backToBack.conflicts()).toEqual([]);
+      expect(describeConflicts(closed.conflicts())).toEqual(['0-1 [2024-01-04, 2024-01-05]']);
+      expect(Sequence.empty().conflicts()).toEqual([]);
+    });
+
+    test('indices follow the sequence order, also after custom sorting', () => {
+      const byDuration = bookings.sortByDuration();
+      const conflicts = byDuration.conflicts();
+
+      expect(conflicts).toHaveLength(3);
+      for (const { indices, periods } of conflicts) {
+        expect(indices[0]).toBeLessThan(indices[1]);
+        expect(periods[0]).toBe(byDuration.get(indices[0]));
+        expect(periods[1]).toBe(byDuration.get(indices[1]));
+      }
+    });
+
+    test('discrete semantics count a shared day as a conflict', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-05', '2024-01-09', Bounds.IncludeAll)
+      );
+
+      PeriodSettings.withSemantics(Semantics.Discrete, () => {
+        expect(describeConflicts(sequence.conflicts())).toEqual(['0-1 [2024-01-05, 2024-01-06)']);
+      });
+    });
+
+    test('conflictsWith() checks across two sequences', () => {
+      const maintenance = new Sequence(
+        new Period('2024-01-09', '2024-01-21'),
+        new Period('2024-02-01', '2024-02-02')
+      );
+
+      expect(describeConflicts(bookings.conflictsWith(maintenance))).toEqual([
+        '0-0 [2024-01-09, 2024-01-10)',
+        '1-0 [2024-01-09, 2024-01-15)',
+        '2-0 [2024-01-09, 2024-01-12)',
+        '3-0 [2024-01-20, 2024-01-21)'
+      ]);
+      expect(bookings.conflictsWith(Sequence.empty())).toEqual([]);
+    });
+
+    test('conflicts() agrees with a pairwise scan', () => {
+      const periods = Array.from({ length: 300 }, (_, i) =>
+        new Period(Date.UTC(2024, 0, 1 + (i * 37) % 200), Date.UTC(2024, 0, 2 + (i * 37) % 200 + i % 5)));
+      const sequence = Sequence.fromArray(periods);
+      const expected: string[] = [];
+      for (let i = 0; i < sequence.count(); i++) {
+        for (let j = i + 1; j < sequence.count(); j++) {
+          const intersection = sequence.get(i).intersection(sequence.get(j));
+          if (!intersection.isEmpty()) expected.push(`${i}-${j} ${intersection.toString()}`);
+        }
+      }
+
+      expect(describeConflicts(sequence.conflicts())).toEqual(expected);
+    });
+
+    test('handles 100k-entry calendars', () => {
+      const day = 86400000;
+      const base = Date.UTC(2000, 0, 1);
+      // Back-to-back days with a double booking every 10k entries
+      const periods = Array.from({ length: 100000 }, (_, i) =>
+        new Period(base + i * day, base + (i + (i % 10000 === 0 ? 2 : 1)) * day));
+      const sequence = new Sequence(periods, true);
+
+      const start = performance.now();
+      const conflicts = sequence.conflicts();
+      const elapsed = performance.now() - start;
+
+      expect(conflicts).toHaveLength(10);
+      expect(conflicts[0].indices).toEqual([0, 1]);
+      expect(elapsed).toBeLessThan(2000);
+    });
+  });
+
+
+  describe('ISO 8601 Repeating Intervals', () => {
+    const strings = (sequence: Sequence) => sequence.map(p => p.toString());
+
+    test('Rn/start/duration repeats from a fixed start', () => {
+      const months = Sequence.fromISORepeating('R12/2024-01-01/P1M');
+      const monthEnds = Sequence.fromISORepeating('R3/2024-01-31/P1M');
+
+      expect(months.count()).toBe(12);
+      expect(months.last()!.toString()).toBe('[2024-12-01, 2025-01-01)');
+      expect(strings(monthEnds)).toEqual(['[2024-01-31, 2024-02-29)', '[2024-02-29, 2024-03-31)', '[2024-03-31, 2024-04-30)']);
+    });
+
+    test('Rn/start/end repeats the interval length', () => {
+      expect(strings(Sequence.fromISORepeating('R3/2024-01-01T09:00Z/10:30'))).toEqual([
+        '[2024-01-01T09:00, 2024-01-01T10:30)',
+        '[2024-01-01T10:30, 2024-01-01T12:00)',
+        '[2024-01-01T12:00, 2024-01-01T13:30)'
+      ]);
+    });
+
+    test('Rn/duration/end repeats backwards from the end', () => {
+      expect(strings(Sequence.fromISORepeating('R2/P1W/2024-03-01'))).toEqual(['[2024-02-16, 2024-02-23)', '[2024-02-23, 2024-03-01)']);
+    });
+
+    test('unbounded repetitions are limited and clipped by a window', () => {
+      const window = new Period('2024-01-03', '2024-01-20');
+
+      expect(strings(Sequence.fromISORepeating('R/2024-01-01/P1W', { window }))).toEqual([
+        '[2024-01-03, 2024-01-08)',
+        '[2024-01-08, 2024-01-15)',
+        '[2024-01-15, 2024-01-20)'
+      ]);
+      expect(strings(Sequence.fromISORepeating('R-1/P1W/2024-01-20', { window }))).toEqual([
+        '[2024-01-03, 2024-01-06)',
+        '[2024-01-06, 2024-01-13)',
+        '[2024-01-13, 2024-01-20)'
+      ]);
+      expect(() => Sequence.fromISORepeating('R/2024-01-01/P1W')).toThrow('needs a window');
+    });
+
+    test('options set bounds and zone', () => {
+      const days = Sequence.fromISORepeating('R2/2024-03-30/P1D', { zone: 'Europe/Berlin', bounds: Bounds.IncludeAll });
+
+      expect(days.get(0).zone).toBe('Europe/Berlin');
+      expect(days.get(1).bounds).toBe(Bounds.IncludeAll);
+      expect(days.get(1).end.toISOString()).toBe('2024-03-31T22:00:00.000Z');
+      expect(Sequence.fromISORepeating('R0/2024-01-01/P1D').isEmpty()).toBe(true);
+      expect(() => Sequence.fromISORepeating('2024-01-01/P1D')).toThrow('Invalid ISO 8601 repeating interval');
+    });
+
+    test('zero-length and reversed steps are rejected', () => {
+      const window = Period.fromMonth(2024, 1);
+
+      expect(() => Sequence.fromISORepeating('R/2024-01-01/PT0S', { window })).toThrow('ISO 8601 repetition needs a positive step');
+      expect(() => Sequence.fromISORepeating('R/2024-01-01/2024-01-01', { window })).toThrow('ISO 8601 repetition needs a positive step');
+      expect(() => Sequence.fromISORepeating('R3/2024-01-10/2024-01-01')).toThrow('ISO 8601 repetition needs a positive step');
+    });
+  });
+
+  describe('Unbounded Periods', () => {
+    test('boundaries() and totalDuration() reach to infinity', () => {
+      const sequence = new Sequence(Period.until('2024-01-01'), Period.fromMonth(2024, 3), Period.from('2024-06-01'));
+
+      expect(sequence.boundaries()?.toString()).toBe('(.., ..)');
+      expect(sequence.totalDuration()).toBe(Infinity);
+      expect(new Sequence(Period.fromMonth(2024, 3)).totalDuration()).toBe(31 * 86400000);
+    });
+
+    test('gaps() lie between open-ended periods', () => {
+      const sequence = new Sequence(Period.from('2024-06-01'), Period.until('2024-01-01'), Period.fromMonth(2024, 3));
+
+      expect(sequence.gaps().map(p => p.toString())).toEqual(['[2024-01-01, 2024-03-01)', '[2024-04-01, 2024-06-01)']);
+      expect(sequence.map(p => p.toString())[0]).toBe('(.., 2024-01-01)');
+    });
+
+    test('set operations keep open ends', () => {
+      const contract = new Sequence(Period.from('2024-01-01'));
+      const blackout = new Sequence(Period.fromMonth(2024, 8), Period.from('2025-01-01'));
+
+      expect(contract.subtract(blackout).map(p => p.toString())).toEqual(['[2024-01-01, 2024-08-01)', '[2024-09-01, 2025-01-01)']);
+      expect(blackout.complement(Period.all()).map(p => p.toString())).toEqual(['(.., 2024-08-01)', '[2024-09-01, 2025-01-01)']);
+      expect(contract.intersect(blackout).map(p => p.toString())).toEqual(['[2024-08-01, 2024-09-01)', '[2025-01-01, ..)']);
+      expect(new Sequence(Period.until('2024-03-01'), Period.from('2024-02-01')).merge().get(0).equals(Period.all())).toBe(true);
+      expect(contract.union(blackout).maxDepth()).toBe(2);
+    });
+  });
+
+  describe('Empty and Single-Instant Periods', () => {
+    test('set operations leave empty periods out', () => {
+      const sequence = new Sequence(new Period('2024-01-01', '2024-01-05'), Period.empty(), new Period('2024-01-10', '2024-01-10'));
+      const other = new Sequence(new Period('2024-01-03', '2024-01-12'));
+
+      expect(sequence.count()).toBe(3);
+      expect(sequence.merge().map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-05)']);
+      expect(sequence.intersect(other).map(p => p.toString())).toEqual(['[2024-01-03, 2024-01-05)']);
+      expect(other.subtract(sequence).map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-12)']);
+      expect(sequence.subtract(other).map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-03)']);
+      expect(sequence.gaps().count()).toBe(0);
+    });
+
+    test('subtract() leaves instants where the cutter excludes its endpoints', () => {
+      const period = new Sequence(new Period('2024-01-01', '2024-01-09', Bounds.IncludeAll));
+      const open = new Sequence(new Period('2024-01-01', '2024-01-09', Bounds.ExcludeAll));
+
+      expect(period.subtract(open).map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-01]', '[2024-01-09, 2024-01-09]']);
+      expect(period.subtract(new Sequence(Period.instant('2024-01-05'))).map(p => p.toString()))
+        .toEqual(['[2024-01-01, 2024-01-05)', '(2024-01-05, 2024-01-09]']);
+    });
+
+    test('instants merge with the periods they touch and fill gaps', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-05'),
+        new Period('2024-01-05', '2024-01-09', Bounds.ExcludeStartIncludeEnd)
+      );
+
+      expect(sequence.gaps().map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-05]']);
+      expect(new Sequence(...sequence, Period.instant('2024-01-05')).merge().map(p => p.toString())).toEqual(['[2024-01-01, 2024-01-09]']);
+    });
+
+    test('shared instants count as conflicts and coverage', () => {
+      const sequence = new Sequence(
+        new Period('2024-01-01', '2024-01-05', Bounds.IncludeAll),
+        new Period('2024-01-05', '2024-01-09', Bounds.IncludeAll)
+      );
+
+      expect(sequence.conflicts().map(c => c.intersection.toString())).toEqual(['[2024-01-05, 2024-01-05]']);
+      expect(sequence.whereDepthExceeds(1).map(p => p.toString())).toEqual(['[2024-01-05, 2024-01-05]']);
+    });
+  });
+
+  describe('Grouping', () => {
+    const bookings = new Sequence(
+      new TaggedPeriod('2024-01-25', '2024-02-05', 'A'),
+      new TaggedPeriod('2024-01-02', '2024-01-04', 'B'),
+      new TaggedPeriod('2024-02-10', '2024-02-12', 'C', Bounds.IncludeAll)
+    );
+    const entries = <T>(map: Map<Period, T>) => [...map].map(([bucket, value]) => [bucket.toString(), value]);
+
+    test('groupBy() splits periods at month boundaries', () => {
+      const months = bookings.groupBy('month');
+
+      expect([...months.keys()].map(bucket => bucket.toString())).toEqual(['[2024-01-01, 2024-02-01)', '[2024-02-01, 2024-03-01)']);
+      const [january, february] = [...months.values()];
+      expect(january.map(p => `${p.payload} ${p.toString()}`)).toEqual(['B [2024-01-02, 2024-01-04)', 'A [2024-01-25, 2024-02-01)']);
+      expect(february.map(p => `${p.payload} ${p.toString()}`)).toEqual(['A [2024-02-01, 2024-02-05)', 'C [2024-02-10, 2024-02-12]']);
+      expect([...months.keys()][0].equals(Period.fromMonth(2024, 1))).toBe(true);
+    });
+
+    test('groupBy() uses ISO weeks, quarters and years', () => {
+      expect([...bookings.groupBy('week').keys()].map(bucket => bucket.toString())).toEqual([
+        '[2024-01-01, 2024-01-08)', '[2024-01-22, 2024-01-29)', '[2024-01-29, 2024-02-05)', '[2024-02-05, 2024-02-12)'
+      ]);
+      expect([...new Sequence(new Period('2020-12-30', '2021-01-02')).groupBy('week').keys()][0].equals(Period.fromWeek(2020, 53))).toBe(true);
+      expect([...new Sequence(new Period('2024-03-30', '2024-04-02')).groupBy('quarter').keys()].map(q => q.toString()))
+        .toEqual(['[2024-01-01, 2024-04-01)', '[2024-04-01, 2024-07-01)']);
+      expect(bookings.groupBy('year').size).toBe(1);
+    });
+
+    test('groupBy() accepts a key function', () => {
+      const fortnights = (date: Date) => {
+        const start = Date.UTC(2024, 0, 1) + Math.floor((date.getTime() - Date.UTC(2024, 0, 1)) / (14 * 86400000)) * 14 * 86400000;
+        return Period.fromTimestamps(start, start + 14 * 86400000);
+      };
+
+      expect(entries(bookings.groupBy(fortnights)).map(([bucket, periods]) => [bucket, (periods as Sequence).count()])).toEqual([
+        ['[2024-01-01, 2024-01-15)', 1], ['[2024-01-15, 2024-01-29)', 1], ['[2024-01-29, 2024-02-12)', 2]
+      ]);
+      expect(() => bookings.groupBy(() => Period.fromYear(1999))).toThrow('does not contain');
+    });
+
+    test('groupBy() follows the zone', () => {
+      // Midnight UTC is 01:00 in Berlin, so only the UTC months split the period
+      const late = new Sequence(new Period('2024-01-31T23:00:00Z', '2024-02-01T02:00:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Hour }));
+
+      expect([...late.groupBy('month').values()].map(s => s.count())).toEqual([1, 1]);
+      expect([...late.groupBy('month', { zone: 'Europe/Berlin' }).keys()].map(bucket => bucket.zone)).toEqual(['Europe/Berlin']);
+      expect(() => new Sequence(Period.from('2024-01-01')).groupBy('month')).toThrow('Cannot group an unbounded period');
+    });
+
+    test('histogram() counts booked days per bucket', () => {
+      expect(entries(bookings.histogram('month'))).toEqual([
+        ['[2024-01-01, 2024-02-01)', 9],
+        ['[2024-02-01, 2024-03-01)', 6]
+      ]);
+      expect(entries(Sequence.empty().histogram('week'))).toEqual([]);
+    });
+  });
+
+  describe('Free Slots', () => {
+    // 2024-07-01 is a Monday
+    const q3 = Period.fromQuarter(2024, 3);
+    const bookings = new Sequence(
+      new Period('2024-07-01', '2024-07-10'),
+      new Period('2024-07-15', '2024-07-17'),
+      new Period('2024-07-24', '2024-08-02')
+    );
+    const strings = (slots: Sequence) => slots.map(p => p.toString());
+
+    test('without constraints slots are the free stretches of the window', () => {
+      expect(strings(bookings.findSlots({ within: q3 }))).toEqual([
+        '[2024-07-10, 2024-07-15)', '[2024-07-17, 2024-07-24)', '[2024-08-02, 2024-10-01)'
+      ]);
+      expect(strings(Sequence.empty().findSlots({ within: q3 }))).toEqual([q3.toString()]);
+    });
+
+    test('first 5 free days starting on a Monday', () => {
+      const slots = bookings.findSlots({
+        within: q3,
+        minLength: DurationInterval.fromDays(5),
+        maxLength: DurationInterval.fromDays(5),
+        alignTo: Weekday.Monday,
+        after: '2024-07-03',
+        limit: 1
+      });
+
+      // Monday 2024-07-22 only has two free days before the next booking
+      expect(strings(slots)).toEqual(['[2024-08-05, 2024-08-10)']);
+    });
+
+    test('minLength filters, maxLength tiles, after and limit cut the search', () => {
+      expect(strings(bookings.findSlots({ within: q3, minLength: DurationInterval.fromDays(6) })))
+        .toEqual(['[2024-07-17, 2024-07-24)', '[2024-08-02, 2024-10-01)']);
+      expect(strings(bookings.findSlots({ within: q3, maxLength: DurationInterval.fromWeeks(1), alignTo: 'week', after: '2024-08-01', limit: 3 })))
+        .toEqual(['[2024-08-05, 2024-08-12)', '[2024-08-12, 2024-08-19)', '[2024-08-19, 2024-08-26)']);
+      expect(strings(bookings.findSlots({ within: q3, after: '2024-07-20', limit: 1 }))).toEqual(['[2024-07-20, 2024-07-24)']);
+      expect(strings(bookings.findSlots({ within: q3, alignTo: 'month' }))).toEqual(['[2024-09-01, 2024-10-01)']);
+    });
+
+    test('slots keep the bounds of the free stretch they start or end with', () => {
+      const busy = new Sequence(new Period('2024-07-01', '2024-07-10', Bounds.IncludeAll));
+
+      expect(strings(busy.findSlots({ within: Period.fromMonth(2024, 7), maxLength: DurationInterval.fromDays(10) }))).toEqual([
+        '(2024-07-10, 2024-07-20)', '[2024-07-20, 2024-07-30)', '[2024-07-30, 2024-08-01)'
+      ]);
+      expect(strings(busy.findSlots({ within: Period.fromMonth(2024, 7), alignTo: 'day', limit: 1 }))).toEqual(['[2024-07-11, 2024-08-01)']);
+    });
+
+    test('slots free for every resource', () => {
+      const hours = { precision: Precision.Hour };
+      const alice = new Sequence(new Period('2024-07-01T09:00:00Z', '2024-07-01T11:00:00Z', Bounds.IncludeStartExcludeEnd, hours));
+      const bob = new Sequence(
+        new Period('2024-07-01T10:00:00Z', '2024-07-01T12:00:00Z', Bounds.IncludeStartExcludeEnd, hours),
+        new Period('2024-07-01T14:00:00Z', '2024-07-01T15:00:00Z', Bounds.IncludeStartExcludeEnd, hours)
+      );
+      const workday = new Period('2024-07-01T09:00:00Z', '2024-07-01T17:00:00Z', Bounds.IncludeStartExcludeEnd, hours);
+
+      expect(strings(Sequence.findSlots([alice, bob], { within: workday }))).toEqual([
+        '[2024-07-01T12:00, 2024-07-01T14:00)', '[2024-07-01T15:00, 2024-07-01T17:00)'
+      ]);
+      expect(strings(Sequence.findSlots([alice, bob], { within: workday, minLength: DurationInterval.fromHours(2), maxLength: DurationInterval.fromHours(2) })))
+        .toHaveLength(2);
+      expect(strings(Sequence.findSlots([], { within: workday }))).toEqual([workday.toString()]);
+    });
+
+    test('invalid searches are rejected', () => {
+      expect(() => bookings.findSlots({ within: Period.from('2024-07-01') })).toThrow('Slot search needs a bounded window');
+      expect(() => bookings.findSlots({ within: q3, minLength: DurationInterval.fromDays(3), maxLength: DurationInterval.fromDays(2) }))
+        .toThrow('minLength must not exceed maxLength');
+    });
+  });
+
+
+  describe('N-way Set Operations', () => {
+    const strings = (sequence: Sequence) => sequence.map(p => p.toString());
+    const alice = new Sequence(new Period('2024-07-01', '2024-07-10'), new Period('2024-07-15', '2024-07-25'));
+    const bob = new Sequence(new Period('2024-07-05', '2024-07-20'));
+    const carol = new Sequence(new Period('2024-07-01', '2024-07-08'), new Period('2024-07-16', '2024-07-31'));
+
+    test('intersectAll(), atLeast() and unionAll() of team availabilities', () => {
+      const team = [alice, bob, carol];
+
+      expect(strings(Sequence.intersectAll(team))).toEqual(['[2024-07-05, 2024-07-08)', '[2024-07-16, 2024-07-20)']);
+      expect(strings(Sequence.atLeast(2, team))).toEqual(['[2024-07-01, 2024-07-10)', '[2024-07-15, 2024-07-25)']);
+      expect(strings(Sequence.unionAll(team))).toEqual(['[2024-07-01, 2024-07-31)']);
+      expect(Sequence.atLeast(3, team).equals(Sequence.intersectAll(team))).toBe(true);
+    });
+
+    test('overlapping periods within one sequence count once', () => {
+      const overlapping = new Sequence(new Period('2024-07-01', '2024-07-10'), new Period('2024-07-05', '2024-07-15'));
+
+      expect(strings(Sequence.atLeast(2, [overlapping, new Sequence(new Period('2024-07-20', '2024-07-25'))]))).toEqual([]);
+      expect(strings(Sequence.atLeast(2, [overlapping, overlapping]))).toEqual(['[2024-07-01, 2024-07-15)']);
+      expect(strings(Sequence.unionAll([overlapping]))).toEqual(['[2024-07-01, 2024-07-15)']);
+    });
+
+    test('bounds decide shared endpoints', () => {
+      const closed = new Sequence(new Period('2024-07-01', '2024-07-05', Bounds.IncludeAll));
+      const halfOpen = new Sequence(new Period('2024-07-01', '2024-07-05'));
+      const next = new Sequence(new Period('2024-07-05', '2024-07-10'));
+      const open = new Sequence(new Period('2024-07-01', '2024-07-10', Bounds.ExcludeAll));
+
+      expect(strings(Sequence.intersectAll([closed, next]))).toEqual(['[2024-07-05, 2024-07-05]']);
+      expect(strings(Sequence.intersectAll([halfOpen, next]))).toEqual([]);
+      expect(strings(Sequence.unionAll([halfOpen, next]))).toEqual(['[2024-07-01, 2024-07-10)']);
+      expect(strings(Sequence.intersectAll([closed, open]))).toEqual(['(2024-07-01, 2024-07-05]']);
+    });
+
+    test('empty inputs and invalid k', () => {
+      expect(Sequence.intersectAll([]).isEmpty()).toBe(true);
+      expect(Sequence.unionAll([]).isEmpty()).toBe(true);
+      expect(Sequence.intersectAll([alice, Sequence.empty()]).isEmpty()).toBe(true);
+      expect(Sequence.atLeast(3, [alice, bob]).isEmpty()).toBe(true);
+      expect(() => Sequence.atLeast(0, [alice])).toThrow('k must be a positive integer');
+      expect(() => Sequence.atLeast(1.5, [alice])).toThrow('k must be a positive integer');
+    });
+
+    test('matches chained pairwise operations', () => {
+      // Deterministic pseudo-random hour periods, one sequence kept in reverse order
+      let seed = 42;
+      const random = (n: number) => (seed = (seed * 1103515245 + 12345) % 2147483648) % n;
+      const base = Date.parse('2024-07-01T00:00:00Z');
+      const hours = { precision: Precision.Hour };
+      const sequences = Array.from({ length: 5 }, (_, s) => {
+        const periods = Array.from({ length: 40 }, () => {
+          const start = base + random(500) * 3600000;
+          return new Period(start, start + (1 + random(24)) * 3600000, Bounds.IncludeStartExcludeEnd, hours);
+        });
+        return new Sequence(s === 0 ? periods.reverse() : periods.sort((a, b) => a.startTime - b.startTime), true);
+      });
+
+      // Number of sequences covering each hour, counted directly
+      const covering = (hour: number) => sequences.filter(sequence => sequence.some(p => p.containsDate(base + hour * 3600000))).length;
+      const hoursIn = (result: Sequence) => Array.from({ length: 530 }, (_, hour) => hour)
+        .filter(hour => result.some(p => p.containsDate(base + hour * 3600000)));
+      const all = Array.from({ length: 530 }, (_, hour) => hour);
+
+      expect(hoursIn(Sequence.intersectAll(sequences))).toEqual(all.filter(hour => covering(hour) === 5));
+      expect(hoursIn(Sequence.atLeast(3, sequences))).toEqual(all.filter(hour => covering(hour) >= 3));
+      expect(hoursIn(Sequence.unionAll(sequences))).toEqual(all.filter(hour => covering(hour) >= 1));
+      // Pairwise intersect() needs sorted, disjoint operands
+      const [first, ...others] = sequences.map(sequence => new Sequence(...sequence).merge());
+      const chained = others.reduce((result, sequence) => result.intersect(sequence), first);
+      expect(strings(Sequence.intersectAll(sequences))).toEqual(strings(chained.merge()));
+    });
+  });
 });
@@ -0,0 +1,170 @@
+/**
+ * Tests for the JSON wire format of Period, TaggedPeriod, Sequence and DurationInterval
+ * Every value must survive JSON.stringify / JSON.parse unchanged
+ */
+
+import {
+  Period, PeriodClass, Sequence, TaggedPeriod, DurationInterval, Bounds, Precision,
+  periodReviver, JSON_SCHEMA_VERSION
+} from '../src/index';
+
+describe('JSON Serialization', () => {
+  describe('Period', () => {
+    test('toJSON() writes the documented wire format', () => {
+      const period = new Period('2024-01-01', '2024-02-01');
+
+      expect(JSON.parse(JSON.stringify(period))).toEqual({
+        type: 'Period',
+        version: JSON_SCHEMA_VERSION,
+        start: '2024-01-01T00:00:00.000Z',
+        end: '2024-02-01T00:00:00.000Z',
+        bounds: '[)',
+        precision: 'day'
+      });
+    });
+
+    test('private fields do not leak', () => {
+      const text = JSON.stringify(new Period('2024-01-01', '2024-02-01'));
+
+      expect(text).not.toContain('_startTime');
+      expect(text).not.toContain('_bounds');
+    });
+
+    test('bounds, precision and zone round-trip', () => {
+      const periods = [
+        new Period('2024-01-01', '2024-01-31', Bounds.IncludeAll),
+        new Period('2024-01-01', '2024-01-31', Bounds.ExcludeStartIncludeEnd),
+        new Period('2024-01-01', '2024-01-31', Bounds.ExcludeAll),
+        new Period('2024-01-15T09:00:00Z', '2024-01-15T17:30:00Z', Bounds.IncludeStartExcludeEnd, { precision: Precision.Minute }),
+        Period.fromDay('2024-03-31', { zone: 'Europe/Berlin' })
+      ];
+
+      for (const period of periods) {
+        const revived = PeriodClass.fromJSON(JSON.stringify(period));
+        expect(revived.equals(period)).toBe(true);
+        expect(revived.precision).toBe(period.precision);
+        expect(revived.zone).toBe(period.zone);
+      }
+      expect(periods.map(p => p.toJSON().bounds)).toEqual(['[]', '(]', '()', '[)', '[)']);
+      expect(periods[4].toJSON().zone).toBe('Europe/Berlin');
+      expect(periods[0].toJSON()).not.toHaveProperty('zone');
+    });
+
+    test('fromJSON() rejects other types, newer versions and bad values', () => {
+      const json = new Period('2024-01-01', '2024-02-01').toJSON();
+
+      expect(() => PeriodClass.fromJSON({ ...json, version: JSON_SCHEMA_VERSION + 1 })).toThrow('Unsupported Period JSON version');
+      expect(() => PeriodClass.fromJSON({ ...json, bounds: '[[' as '[)' })).toThrow('Invalid bounds notation');
+      expect(() => PeriodClass.fromJSON({ ...json, precision: 'week' as 'day' })).toThrow('Invalid precision');
+      expect(() => PeriodClass.fromJSON({ ...json, start: 'soon' })).toThrow('Invalid Period JSON timestamp');
+      expect(() => PeriodClass.fromJSON('{"type":"Sequence","version":1,"periods":[]}')).toThrow('Expected Period or TaggedPeriod JSON');
+    });
+  });
+
+  describe('TaggedPeriod', () => {
+    test('payload travels with the period', () => {
+      const booking = new TaggedPeriod('2024-01-01', '2024-01-10', { id: 'B-1', rate: 100 }, Bounds.IncludeAll);
+
+      const revived = TaggedPeriod.fromJSON<{ id: string; rate: number }>(JSON.stringify(booking));
+
+      expect(booking.toJSON().type).toBe('TaggedPeriod');
+      expect(revived).toBeInstanceOf(TaggedPeriod);
+      expect(revived.payload).toEqual({ id: 'B-1', rate: 100 });
+      expect(revived.equals(booking)).toBe(true);
+      expect(PeriodClass.fromJSON(booking.toJSON())).toBeInstanceOf(TaggedPeriod);
+      expect(() => TaggedPeriod.fromJSON(new Period('2024-01-01', '2024-01-10').toJSON() as never)).toThrow('Expected TaggedPeriod JSON');
+    });
+  });
+
+  describe('DurationInterval', () => {
+    test('calendar components round-trip', () => {
+      const durations = [
+        DurationInterval.fromMonths(1),
+        DurationInterval.fromComponents({ years: 1, weeks: 2, hours: 3, milliseconds: 500 }),
+        new DurationInterval(0)
+      ];
+
+      for (const duration of durations) {
+        const revived = DurationInterval.fromJSON(JSON.stringify(duration));
+        expect(revived.components).toEqual(duration.components);
+      }
+      expect(durations[0].toJSON()).toEqual({ type: 'DurationInterval', version: JSON_SCHEMA_VERSION, iso: 'P1M' });
+    });
+
+    test('fractional durations round-trip', () => {
+      const durations = [
+        DurationInterval.fromDays(1.5),
+        DurationInterval.fromWeeks(0.5),
+        DurationInterval.fromMonths(1.5),
+        DurationInterval.fromHours(1.25),
+        DurationInterval.fromISO8601('P1.5D'),
+        DurationInterval.fromISO8601('PT0,5H')
+      ];
+
+      for (const duration of durations) {
+        const revived = DurationInterval.fromJSON(JSON.stringify(duration));
+        expect(revived.components).toEqual(duration.components);
+        expect(revived.milliseconds).toBe(duration.milliseconds);
+      }
+      expect(DurationInterval.fromDays(1.5).toJSON().iso).toBe('P1DT12H');
+      expect(DurationInterval.fromISO8601('P1.5D').milliseconds).toBe(36 * 3600000);
+      expect(DurationInterval.fromISO8601('PT0,5H').toISO8601()).toBe('PT30M');
+    });
+  });
+
+  describe('Sequence', () => {
+    test('periods keep their order and types', () => {
+      const sequence = new Sequence([
+        new Period('2024-03-01', '2024-03-05'),
+        new TaggedPeriod('2024-01-01', '2024-01-10', 'ann'),
+        new Period('2024-02-01', '2024-02-05', Bounds.IncludeAll)
+      ], true);
+
+      const revived = Sequence.fromJSON(JSON.stringify(sequence));
+
+      expect(revived.map(p => p.toString())).toEqual(sequence.map(p => p.toString()));
+      expect(revived.get(1)).toBeInstanceOf(TaggedPeriod);
+      expect(revived.equals(sequence)).toBe(true);
+    });
+
+    test('an empty sequence round-trips', () => {
+      expect(JSON.stringify(Sequence.empty())).toBe(`{"type":"Sequence","version":${JSON_SCHEMA_VERSION},"periods":[]}`);
+      expect(Sequence.fromJSON(JSON.stringify(Sequence.empty())).isEmpty()).toBe(true);
+    });
+  });
+
+  describe('Reviver', () => {
+    test('JSON.parse rebuilds nested values', () => {
+      const message = {
+        schedule: new Sequence(new Period('2024-01-01', '2024-01-05'), new Period('2024-01-10', '2024-01-12')),
+        slot: new Period('2024-01-05', '2024-01-10', Bounds.IncludeAll),
+        reminder: DurationInterval.fromHours(2),
+        note: { type: 'memo', text: 'untouched' }
+      };
+
+      const revived = JSON.parse(JSON.stringify(message), periodReviver);
+
+      expect(revived.schedule).toBeInstanceOf(Sequence);
+      expect(revived.schedule.count()).toBe(2);
+      expect(revived.slot).toBeInstanceOf(PeriodClass);
+      expect(revived.slot.toString()).toBe('[2024-01-05, 2024-01-10]');
+      expect(revived.reminder).toBeInstanceOf(DurationInterval);
+      expect(revived.reminder.milliseconds).toBe(7200000);
+      expect(revived.note).toEqual({ type: 'memo', text: 'untouched' });
+    });
+
+    test('payloads that only look like wire objects stay untouched', () => {
+      const payload = { type: 'Period', note: 'x' };
+      const tagged = new TaggedPeriod('2024-01-01', '2024-01-05', payload);
+      const untagged = new TaggedPeriod('2024-02-01', '2024-02-05', undefined);
+
+      const revived = JSON.parse(JSON.stringify({ tagged, untagged, plain: { type: 'Sequence', version: 1 } }), periodReviver);
+
+      expect(revived.tagged).toBeInstanceOf(TaggedPeriod);
+      expect(revived.tagged.payload).toEqual(payload);
+      expect(revived.tagged.toString()).toBe(tagged.toString());
+      expect(revived.untagged).toBeInstanceOf(TaggedPeriod);
+      expect(revived.plain).toEqual({ type: 'Sequence', version: 1 });
+    });
+  });
+});
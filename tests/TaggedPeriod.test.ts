@@ -0,0 +1,136 @@
+/**
+ * Tests for payload-carrying periods and generic sequences
+ * Payloads must survive every derived period and set operation
+ */
+
+import { Period, Sequence, Bounds, Precision, DurationInterval, TaggedPeriod } from '../src/index';
+
+describe('TaggedPeriod', () => {
+  describe('Construction', () => {
+    test('carries a payload next to the period', () => {
+      const booking = new TaggedPeriod('2024-01-01', '2024-01-10', { id: 'B-1', rate: 100 });
+
+      expect(booking.payload).toEqual({ id: 'B-1', rate: 100 });
+      expect(booking.toString()).toBe('[2024-01-01, 2024-01-10)');
+    });
+
+    test('from() tags an existing period keeping bounds, precision and zone', () => {
+      const period = new Period('2024-01-15T09:00:00Z', '2024-01-15T17:00:00Z', Bounds.IncludeAll, { precision: Precision.Hour });
+      const tagged = TaggedPeriod.from(period, 'shift');
+
+      expect(tagged.bounds).toBe(Bounds.IncludeAll);
+      expect(tagged.precision).toBe(Precision.Hour);
+      expect(tagged.equals(period)).toBe(true);
+      expect(tagged.payload).toBe('shift');
+    });
+
+    test('withPayload, mapPayload and toPeriod', () => {
+      const tagged = new TaggedPeriod('2024-01-01', '2024-01-10', 2);
+
+      expect(tagged.withPayload('two').payload).toBe('two');
+      expect(tagged.mapPayload(n => n * 10).payload).toBe(20);
+      expect(tagged.toPeriod()).not.toBeInstanceOf(TaggedPeriod);
+    });
+  });
+
+  describe('Derived Periods', () => {
+    const booking = new TaggedPeriod('2024-01-01', '2024-01-10', 'B-1');
+
+    test('modifications keep the payload', () => {
+      const derived = [
+        booking.startingOn(Date.UTC(2024, 0, 2)),
+        booking.endingOn(Date.UTC(2024, 0, 20)),
+        booking.withBounds(Bounds.IncludeAll),
+        booking.withPrecision(Precision.Hour),
+        booking.withZone('Europe/Berlin'),
+        booking.move(DurationInterval.fromDays(7)),
+        booking.expand(DurationInterval.fromDays(1)),
+        booking.canonicalize(Bounds.IncludeAll)
+      ];
+
+      for (const period of derived) {
+        expect(period).toBeInstanceOf(TaggedPeriod);
+        expect((period as TaggedPeriod<string>).payload).toBe('B-1');
+      }
+    });
+
+    test('intersection, union and subtract keep this period\'s payload', () => {
+      const other = new TaggedPeriod('2024-01-05', '2024-01-20', 'B-2');
+
+      expect((booking.intersection(other) as TaggedPeriod<string>).payload).toBe('B-1');
+      expect((booking.union(other) as TaggedPeriod<string>).payload).toBe('B-1');
+      expect((booking.subtract(other).get(0) as TaggedPeriod<string>).payload).toBe('B-1');
+    });
+
+    test('gaps belong to neither period', () => {
+      const later = new TaggedPeriod('2024-01-15', '2024-01-20', 'B-2');
+
+      expect(booking.gap(later)).not.toBeInstanceOf(TaggedPeriod);
+    });
+  });
+
+  describe('Generic Sequence', () => {
+    const bookings = new Sequence(
+      new TaggedPeriod('2024-01-01', '2024-01-10', { owner: 'ann', rate: 100 }),
+      new TaggedPeriod('2024-01-05', '2024-01-15', { owner: 'bob', rate: 50 }),
+      new TaggedPeriod('2024-02-01', '2024-02-05', { owner: 'cid', rate: 80 })
+    );
+
+    test('sort, filter and iteration keep tagged periods', () => {
+      const byDuration = bookings.sortByDuration();
+
+      expect(byDuration.first()!.payload.owner).toBe('cid');
+      expect(bookings.filter(p => p.payload.rate > 60).map(p => p.payload.owner)).toEqual(['ann', 'cid']);
+      expect([...bookings].map(p => p.payload.owner)).toEqual(['ann', 'bob', 'cid']);
+    });
+
+    test('merge keeps the earlier payload by default', () => {
+      const merged = bookings.merge();
+
+      expect(merged.count()).toBe(2);
+      expect(merged.get(0).toString()).toBe('[2024-01-01, 2024-01-15)');
+      expect(merged.get(0).payload.owner).toBe('ann');
+    });
+
+    test('merge combines payloads with a combine function', () => {
+      const merged = bookings.merge((a, b) => ({ owner: `${a.owner}+${b.owner}`, rate: a.rate + b.rate }));
+
+      expect(merged.get(0).payload).toEqual({ owner: 'ann+bob', rate: 150 });
+      expect(merged.get(1).payload).toEqual({ owner: 'cid', rate: 80 });
+    });
+
+    test('intersect combines payloads from both sequences', () => {
+      const rates = new Sequence(new TaggedPeriod('2024-01-08', '2024-02-03', 1.5));
+
+      const result = bookings.intersect(rates, (booking, factor) => ({ ...booking, rate: booking.rate * factor }));
+
+      expect(result.toArray().map(p => [p.toString(), p.payload.rate])).toEqual([
+        ['[2024-01-08, 2024-01-10)', 150],
+        ['[2024-01-08, 2024-01-15)', 75],
+        ['[2024-02-01, 2024-02-03)', 120]
+      ]);
+    });
+
+    test('subtract and index queries keep payloads', () => {
+      const holidays = new Sequence(Period.fromDay('2024-01-08'));
+
+      const remaining = bookings.subtract(holidays);
+      expect(remaining.toArray().map(p => [p.toString(), p.payload.owner])).toEqual([
+        ['[2024-01-01, 2024-01-08)', 'ann'],
+        ['[2024-01-05, 2024-01-08)', 'bob'],
+        ['[2024-01-09, 2024-01-10)', 'ann'],
+        ['[2024-01-09, 2024-01-15)', 'bob'],
+        ['[2024-02-01, 2024-02-05)', 'cid']
+      ]);
+
+      expect(bookings.at(Date.UTC(2024, 0, 7)).map(p => p.payload.owner)).toEqual(['ann', 'bob']);
+    });
+
+    test('mixes with plain periods', () => {
+      const mixed = bookings.union(new Sequence(Period.fromDay('2024-03-01')));
+
+      expect(mixed.count()).toBe(4);
+      expect(mixed.last()).not.toBeInstanceOf(TaggedPeriod);
+    });
+  });
+});